@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AccessibilityIssue, AccessibilityRule, Artifact } from '../types';
+import { SparklesIcon } from './Icons';
+
+const RULE_LABELS: Record<AccessibilityRule, string> = {
+    'image-alt': 'Image alt text',
+    'form-label': 'Form labels',
+    'control-name': 'Button & link names',
+    'heading-order': 'Heading order',
+    'contrast': 'Color contrast'
+};
+
+interface AccessibilityPanelProps {
+    artifact: Artifact;
+    isBusy: boolean;
+    onFix: () => void;
+}
+
+const AccessibilityPanel = ({ artifact, isBusy, onFix }: AccessibilityPanelProps) => {
+    const issues = artifact.audit?.issues || [];
+
+    if (!artifact.audit) {
+        return (
+            <p className="settings-hint">
+                {artifact.status === 'complete' ? 'Auditing the rendered component…' : 'The audit runs once generation finishes.'}
+            </p>
+        );
+    }
+
+    if (issues.length === 0) {
+        return <p className="a11y-clean">No issues found in light or dark mode.</p>;
+    }
+
+    const groups = issues.reduce<Partial<Record<AccessibilityRule, AccessibilityIssue[]>>>((acc, issue) => {
+        (acc[issue.rule] ||= []).push(issue);
+        return acc;
+    }, {});
+
+    return (
+        <div className="settings-form">
+            <button className="a11y-fix" onClick={onFix} disabled={isBusy}>
+                <SparklesIcon /> Fix accessibility issues
+            </button>
+
+            {(Object.keys(groups) as AccessibilityRule[]).map(rule => (
+                <section key={rule} className="a11y-group">
+                    <h3>{RULE_LABELS[rule]} <span>{groups[rule]!.length}</span></h3>
+                    <ul>
+                        {groups[rule]!.map((issue, i) => (
+                            <li key={i} className={`a11y-issue ${issue.severity}`}>
+                                <span className="a11y-message">{issue.message}</span>
+                                <code>{issue.element}</code>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            ))}
+
+            <p className="settings-hint">Checked against the rendered preview. Contrast is measured in both themes.</p>
+        </div>
+    );
+};
+
+export default AccessibilityPanel;
@@ -4,21 +4,36 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useEffect, useRef } from 'react';
-import { Artifact } from '../types';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Artifact, BrandKit } from '../types';
+import { wrapInTemplate } from '../services/template';
+import { Viewport } from '../services/viewports';
+import { AccessibilityIcon, RetryIcon, StopIcon, WarningIcon } from './Icons';
+import ScaledFrame from './ScaledFrame';
 
 interface ArtifactCardProps {
     artifact: Artifact;
     isFocused: boolean;
     theme: 'light' | 'dark';
+    brandKit?: BrandKit | null;
+    // Exact frame sizes to preview at while focused; empty fills the card
+    viewports?: Viewport[];
     onClick: () => void;
+    onCancel?: () => void;
+    onRetry?: () => void;
+    onShowAudit?: () => void;
 }
 
 const ArtifactCard = React.memo(({ 
     artifact, 
     isFocused, 
     theme,
-    onClick 
+    brandKit = null,
+    viewports = [],
+    onClick,
+    onCancel,
+    onRetry,
+    onShowAudit
 }: ArtifactCardProps) => {
     const codeRef = useRef<HTMLPreElement>(null);
 
@@ -29,70 +44,60 @@ const ArtifactCard = React.memo(({
         }
     }, [artifact.html]);
 
-    const wrapInTemplate = (content: string) => {
-        return `
-            <!DOCTYPE html>
-            <html class="${theme === 'dark' ? 'dark' : ''}">
-            <head>
-                <meta charset="UTF-8">
-                <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                <script src="https://cdn.tailwindcss.com"></script>
-                <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet">
-                <style>
-                    body { 
-                        font-family: 'Inter', sans-serif; 
-                        margin: 0; 
-                        padding: 20px;
-                        background-color: transparent;
-                        min-height: 100vh;
-                        display: flex;
-                        align-items: center;
-                        justify-content: center;
-                    }
-                    * { transition: background-color 0.3s ease, color 0.3s ease, border-color 0.3s ease; }
-                </style>
-                <script>
-                    tailwind.config = {
-                        darkMode: 'class',
-                        theme: {
-                            extend: {
-                                colors: {
-                                    zinc: {
-                                        950: '#09090b',
-                                    }
-                                }
-                            }
-                        }
-                    }
-                </script>
-            </head>
-            <body class="bg-white dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100">
-                ${content}
-                <script>
-                    // Sync theme if this script is already loaded
-                    window.addEventListener('message', (event) => {
-                        if (event.data.theme) {
-                            document.documentElement.className = event.data.theme === 'dark' ? 'dark' : '';
-                        }
-                    });
-                </script>
-            </body>
-            </html>
-        `;
-    };
-
     const isBlurring = artifact.status === 'streaming';
-    const srcDoc = wrapInTemplate(artifact.html);
+    const hasFailed = artifact.status === 'error';
+    const allowScripts = !!artifact.scriptsAllowed;
+    const srcDoc = useMemo(
+        () => wrapInTemplate(artifact.html, theme, brandKit, { allowScripts }),
+        [artifact.html, theme, brandKit, allowScripts]
+    );
+    const showViewports = isFocused && viewports.length > 0;
+    const issueCount = artifact.audit?.issues.length ?? 0;
+    const warnings = artifact.status === 'complete' ? artifact.warnings ?? [] : [];
+
+    // Never allow-same-origin: generated code must not reach the app's storage.
+    // Scripts stay enabled for the Tailwind CDN; the template's CSP decides what else runs.
+    const renderIframe = () => (
+        <iframe 
+            srcDoc={srcDoc} 
+            title={artifact.id} 
+            sandbox="allow-scripts allow-forms allow-modals allow-presentation"
+            className="artifact-iframe"
+        />
+    );
 
     return (
         <div 
-            className={`artifact-card ${isFocused ? 'focused' : ''} ${isBlurring ? 'generating' : ''}`}
+            className={`artifact-card ${isFocused ? 'focused' : ''} ${isBlurring ? 'generating' : ''} ${hasFailed ? 'failed' : ''}`}
             onClick={onClick}
         >
             <div className="artifact-header">
+                {artifact.status === 'complete' && artifact.audit && onShowAudit && (
+                    <button 
+                        className={`artifact-audit ${issueCount ? 'has-issues' : ''}`} 
+                        onClick={(e) => { e.stopPropagation(); onShowAudit(); }} 
+                        title={issueCount ? `${issueCount} accessibility issue${issueCount === 1 ? '' : 's'}` : 'No accessibility issues found'}
+                    >
+                        <AccessibilityIcon /> {issueCount || '✓'}
+                    </button>
+                )}
                 <span className="artifact-style-tag">{artifact.styleName}</span>
+                {warnings.length > 0 && (
+                    <span className="artifact-warnings" title={warnings.map(w => w.message).join('\n')}>
+                        <WarningIcon /> {warnings.length}
+                    </span>
+                )}
+                {isBlurring && onCancel && (
+                    <button 
+                        className="artifact-cancel" 
+                        onClick={(e) => { e.stopPropagation(); onCancel(); }} 
+                        title="Cancel this direction"
+                    >
+                        <StopIcon />
+                    </button>
+                )}
             </div>
-            <div className="artifact-card-inner">
+            <div className={`artifact-card-inner ${showViewports ? 'has-viewports' : ''}`}>
                 {isBlurring && (
                     <div className="generating-overlay">
                         <pre ref={codeRef} className="code-stream-preview">
@@ -100,12 +105,35 @@ const ArtifactCard = React.memo(({
                         </pre>
                     </div>
                 )}
-                <iframe 
-                    srcDoc={srcDoc} 
-                    title={artifact.id} 
-                    sandbox="allow-scripts allow-forms allow-modals allow-popups allow-presentation allow-same-origin"
-                    className="artifact-iframe"
-                />
+                {hasFailed && (
+                    <div className="error-overlay">
+                        <span className="error-title">{artifact.error === 'Cancelled' ? 'Generation cancelled' : 'Generation failed'}</span>
+                        {artifact.error && artifact.error !== 'Cancelled' && (
+                            <span className="error-reason">{artifact.error}</span>
+                        )}
+                        {onRetry && (
+                            <button onClick={(e) => { e.stopPropagation(); onRetry(); }}>
+                                <RetryIcon /> Retry this direction
+                            </button>
+                        )}
+                    </div>
+                )}
+                {showViewports ? (
+                    <div className="viewport-stage">
+                        {viewports.map(vp => (
+                            <div 
+                                key={`${vp.label}-${vp.width}-${vp.height}`} 
+                                className="viewport-slot" 
+                                style={{ flexGrow: vp.width }}
+                            >
+                                <span className="viewport-label">{vp.label} · {vp.width}×{vp.height}</span>
+                                <ScaledFrame width={vp.width} height={vp.height}>
+                                    {renderIframe()}
+                                </ScaledFrame>
+                            </div>
+                        ))}
+                    </div>
+                ) : renderIframe()}
             </div>
         </div>
     );
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { BrandKit } from '../types';
+import { BrandKitState, createBrandKit } from '../services/brandKits';
+import { TrashIcon } from './Icons';
+
+interface BrandKitPanelProps {
+    state: BrandKitState;
+    onChange: (state: BrandKitState) => void;
+}
+
+const COLOR_FIELDS: { key: keyof BrandKit['colors']; label: string }[] = [
+    { key: 'primary', label: 'Primary' },
+    { key: 'secondary', label: 'Secondary' },
+    { key: 'accent', label: 'Accent' },
+    { key: 'neutral', label: 'Neutral' }
+];
+
+const BrandKitPanel = ({ state, onChange }: BrandKitPanelProps) => {
+    const activeKit = state.kits.find(k => k.id === state.activeId) || null;
+
+    const updateKit = (patch: Partial<BrandKit>) => {
+        if (!activeKit) return;
+        onChange({
+            ...state,
+            kits: state.kits.map(k => k.id === activeKit.id ? { ...k, ...patch } : k)
+        });
+    };
+
+    const handleCreate = () => {
+        const kit = createBrandKit(`Brand ${state.kits.length + 1}`);
+        onChange({ kits: [...state.kits, kit], activeId: kit.id });
+    };
+
+    const handleDelete = () => {
+        if (!activeKit) return;
+        onChange({ kits: state.kits.filter(k => k.id !== activeKit.id), activeId: null });
+    };
+
+    return (
+        <div className="settings-form">
+            <label className="settings-field">
+                <span>Active brand kit</span>
+                <select 
+                    value={state.activeId || ''} 
+                    onChange={(e) => onChange({ ...state, activeId: e.target.value || null })}
+                >
+                    <option value="">None (generic Tailwind)</option>
+                    {state.kits.map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+                </select>
+            </label>
+
+            <button className="settings-reset" onClick={handleCreate}>+ New brand kit</button>
+
+            {activeKit && (
+                <>
+                    <label className="settings-field">
+                        <span>Name</span>
+                        <input type="text" value={activeKit.name} onChange={(e) => updateKit({ name: e.target.value })} />
+                    </label>
+
+                    <div className="brand-colors">
+                        {COLOR_FIELDS.map(({ key, label }) => (
+                            <label key={key} className="brand-color">
+                                <input 
+                                    type="color" 
+                                    value={activeKit.colors[key]} 
+                                    onChange={(e) => updateKit({ colors: { ...activeKit.colors, [key]: e.target.value } })} 
+                                />
+                                <span>{label}</span>
+                            </label>
+                        ))}
+                    </div>
+
+                    <label className="settings-field">
+                        <span>Heading font</span>
+                        <input 
+                            type="text" 
+                            placeholder="Google Font name, e.g. Space Grotesk" 
+                            value={activeKit.fonts.heading} 
+                            onChange={(e) => updateKit({ fonts: { ...activeKit.fonts, heading: e.target.value } })} 
+                        />
+                    </label>
+
+                    <label className="settings-field">
+                        <span>Body font</span>
+                        <input 
+                            type="text" 
+                            placeholder="Google Font name, e.g. Inter" 
+                            value={activeKit.fonts.body} 
+                            onChange={(e) => updateKit({ fonts: { ...activeKit.fonts, body: e.target.value } })} 
+                        />
+                    </label>
+
+                    <label className="settings-field">
+                        <span>Corner radius <strong className="settings-value">{activeKit.radius}px</strong></span>
+                        <input 
+                            type="range" 
+                            min={0} 
+                            max={24} 
+                            step={1} 
+                            value={activeKit.radius} 
+                            onChange={(e) => updateKit({ radius: Number(e.target.value) })} 
+                        />
+                    </label>
+
+                    <label className="settings-field">
+                        <span>Spacing unit <strong className="settings-value">{activeKit.spacingUnit}px</strong></span>
+                        <input 
+                            type="range" 
+                            min={2} 
+                            max={8} 
+                            step={0.5} 
+                            value={activeKit.spacingUnit} 
+                            onChange={(e) => updateKit({ spacingUnit: Number(e.target.value) })} 
+                        />
+                    </label>
+
+                    <button className="settings-reset danger" onClick={handleDelete}>
+                        <TrashIcon /> Delete kit
+                    </button>
+                </>
+            )}
+
+            <p className="settings-hint">The active kit is injected into every prompt and into each preview's Tailwind config.</p>
+        </div>
+    );
+};
+
+export default BrandKitPanel;
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { formatHtml, highlightHtml } from '../services/htmlTools';
+
+interface CodeEditorProps {
+    initialValue: string;
+    // The html "Reset to generated" restores. The button is disabled when absent.
+    resetValue?: string;
+    readOnly?: boolean;
+    // Shown under the editor while it is read-only
+    readOnlyHint?: string;
+    onChange: (value: string) => void;
+}
+
+const HISTORY_LIMIT = 200;
+// Keystrokes closer together than this collapse into a single undo step
+const HISTORY_GROUP_MS = 600;
+const INDENT = '  ';
+
+const CodeEditor = ({ initialValue, resetValue, readOnly = false, readOnlyHint = 'Editing is available once generation finishes.', onChange }: CodeEditorProps) => {
+    const [history, setHistory] = useState({ entries: [initialValue], index: 0 });
+    const [showFind, setShowFind] = useState(false);
+    const [findValue, setFindValue] = useState('');
+    const [replaceValue, setReplaceValue] = useState('');
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const highlightRef = useRef<HTMLPreElement>(null);
+    const findInputRef = useRef<HTMLInputElement>(null);
+    const lastTypedRef = useRef(0);
+    // Last html this editor reported, to tell its own edits apart from outside changes
+    const emittedRef = useRef(initialValue);
+
+    // Html rewritten elsewhere (e.g. stepping revisions) replaces what's shown, along
+    // with the undo history, so the next keystroke can't write stale text back
+    useEffect(() => {
+        if (initialValue === emittedRef.current) return;
+        emittedRef.current = initialValue;
+        lastTypedRef.current = 0;
+        setHistory({ entries: [initialValue], index: 0 });
+    }, [initialValue]);
+
+    const value = history.entries[history.index];
+    const highlighted = useMemo(() => highlightHtml(value) + '\n', [value]);
+    const matchCount = findValue ? value.split(findValue).length - 1 : 0;
+
+    const commit = (next: string, typed = false) => {
+        if (next === value) return;
+        const now = Date.now();
+        const group = typed && history.index > 0 && now - lastTypedRef.current < HISTORY_GROUP_MS;
+        lastTypedRef.current = typed ? now : 0;
+
+        const entries = history.entries.slice(0, group ? history.index : history.index + 1);
+        entries.push(next);
+        const trimmed = entries.slice(-HISTORY_LIMIT);
+        setHistory({ entries: trimmed, index: trimmed.length - 1 });
+        emittedRef.current = next;
+        onChange(next);
+    };
+
+    const step = (delta: number) => {
+        const target = history.index + delta;
+        if (target < 0 || target >= history.entries.length) return;
+        lastTypedRef.current = 0;
+        setHistory({ ...history, index: target });
+        emittedRef.current = history.entries[target];
+        onChange(history.entries[target]);
+    };
+
+    const select = (start: number, end: number) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        textarea.focus();
+        textarea.setSelectionRange(start, end);
+        // Browsers don't reliably scroll a programmatic selection into view
+        const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+        const line = value.substring(0, start).split('\n').length - 1;
+        textarea.scrollTop = Math.max(0, line * lineHeight - textarea.clientHeight / 2);
+    };
+
+    const findNext = () => {
+        const textarea = textareaRef.current;
+        if (!textarea || !findValue) return;
+        let index = value.indexOf(findValue, textarea.selectionEnd);
+        if (index === -1) index = value.indexOf(findValue);
+        if (index !== -1) select(index, index + findValue.length);
+    };
+
+    const replaceCurrent = () => {
+        const textarea = textareaRef.current;
+        if (!textarea || !findValue || readOnly) return;
+        const { selectionStart, selectionEnd } = textarea;
+        if (value.substring(selectionStart, selectionEnd) !== findValue) {
+            findNext();
+            return;
+        }
+        commit(value.substring(0, selectionStart) + replaceValue + value.substring(selectionEnd));
+        requestAnimationFrame(() => select(selectionStart, selectionStart + replaceValue.length));
+    };
+
+    const replaceAll = () => {
+        if (!findValue || readOnly) return;
+        commit(value.split(findValue).join(replaceValue));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        const mod = e.metaKey || e.ctrlKey;
+        const key = e.key.toLowerCase();
+
+        if (mod && key === 'z') {
+            e.preventDefault();
+            step(e.shiftKey ? 1 : -1);
+        } else if (mod && key === 'y') {
+            e.preventDefault();
+            step(1);
+        } else if (mod && key === 'f') {
+            e.preventDefault();
+            setShowFind(true);
+            requestAnimationFrame(() => findInputRef.current?.select());
+        } else if (e.key === 'Tab' && !readOnly) {
+            e.preventDefault();
+            const { selectionStart, selectionEnd } = e.currentTarget;
+            commit(value.substring(0, selectionStart) + INDENT + value.substring(selectionEnd));
+            requestAnimationFrame(() => textareaRef.current?.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+        }
+    };
+
+    const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+        if (!highlightRef.current) return;
+        highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+        highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    };
+
+    return (
+        <div className="code-editor">
+            <div className="code-editor-toolbar">
+                <button onClick={() => step(-1)} disabled={readOnly || history.index === 0} title="Undo (Ctrl+Z)">Undo</button>
+                <button onClick={() => step(1)} disabled={readOnly || history.index === history.entries.length - 1} title="Redo (Ctrl+Shift+Z)">Redo</button>
+                <button onClick={() => commit(formatHtml(value))} disabled={readOnly}>Format</button>
+                <button className={showFind ? 'active' : ''} onClick={() => setShowFind(s => !s)} title="Find and replace (Ctrl+F)">Find</button>
+                <button
+                    className="code-editor-reset"
+                    onClick={() => resetValue !== undefined && commit(resetValue)}
+                    disabled={readOnly || resetValue === undefined || resetValue === value}
+                    title="Discard manual edits"
+                >
+                    Reset to generated
+                </button>
+            </div>
+
+            {showFind && (
+                <div className="code-editor-find">
+                    <input
+                        ref={findInputRef}
+                        type="text"
+                        placeholder="Find"
+                        value={findValue}
+                        onChange={(e) => setFindValue(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); findNext(); } }}
+                        autoFocus
+                    />
+                    <input
+                        type="text"
+                        placeholder="Replace"
+                        value={replaceValue}
+                        onChange={(e) => setReplaceValue(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); replaceCurrent(); } }}
+                    />
+                    <span className="code-editor-count">{findValue ? `${matchCount} found` : ''}</span>
+                    <button onClick={findNext} disabled={!matchCount}>Next</button>
+                    <button onClick={replaceCurrent} disabled={readOnly || !matchCount}>Replace</button>
+                    <button onClick={replaceAll} disabled={readOnly || !matchCount}>All</button>
+                </div>
+            )}
+
+            <div className="code-editor-surface">
+                <pre ref={highlightRef} className="code-editor-highlight" aria-hidden="true" dangerouslySetInnerHTML={{ __html: highlighted }} />
+                <textarea
+                    ref={textareaRef}
+                    className="code-editor-input"
+                    value={value}
+                    readOnly={readOnly}
+                    spellCheck={false}
+                    autoCapitalize="off"
+                    autoComplete="off"
+                    aria-label="Artifact source"
+                    onChange={(e) => commit(e.target.value, true)}
+                    onKeyDown={handleKeyDown}
+                    onScroll={handleScroll}
+                />
+            </div>
+
+            <p className="settings-hint">{readOnly ? readOnlyHint : 'Edits apply to the preview as you type.'}</p>
+        </div>
+    );
+};
+
+export default CodeEditor;
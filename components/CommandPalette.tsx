@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Command, formatBinding } from '../services/shortcuts';
+
+interface CommandPaletteProps {
+    commands: Command[];
+    onClose: () => void;
+}
+
+const CommandPalette = ({ commands, onClose }: CommandPaletteProps) => {
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLUListElement>(null);
+
+    const q = query.trim().toLowerCase();
+    const matches = commands.filter(c => c.enabled && (!q || `${c.group} ${c.label}`.toLowerCase().includes(q)));
+    const active = Math.min(activeIndex, Math.max(0, matches.length - 1));
+
+    useEffect(() => {
+        listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+    }, [active]);
+
+    const run = (command: Command | undefined) => {
+        if (!command) return;
+        onClose();
+        command.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex((active + step + matches.length) % Math.max(1, matches.length));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            run(matches[active]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <div className="palette-overlay" onClick={onClose}>
+            <div className="palette" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Command palette">
+                <input
+                    className="palette-input"
+                    type="text"
+                    placeholder="Type a command..."
+                    value={query}
+                    onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); }}
+                    onKeyDown={handleKeyDown}
+                    autoFocus
+                />
+                {matches.length === 0 ? (
+                    <p className="palette-empty">No matching commands.</p>
+                ) : (
+                    <ul className="palette-list" ref={listRef} role="listbox">
+                        {matches.map((command, i) => (
+                            <li
+                                key={command.id}
+                                className={`palette-item ${i === active ? 'active' : ''}`}
+                                role="option"
+                                aria-selected={i === active}
+                                onMouseMove={() => i !== active && setActiveIndex(i)}
+                                onClick={() => run(command)}
+                            >
+                                <span className="palette-group">{command.group}</span>
+                                <span className="palette-label">{command.label}</span>
+                                {command.binding && <kbd>{formatBinding(command.binding)}</kbd>}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CommandPalette;
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { BrandKit, CompareItem } from '../types';
+import { collapseUnchanged, diffLines, diffStats } from '../services/diff';
+import { formatHtml } from '../services/htmlTools';
+import { resolveViewports, ViewportSettings } from '../services/viewports';
+import ArtifactCard from './ArtifactCard';
+import ViewportToolbar from './ViewportToolbar';
+import { CodeIcon, CompareIcon, HomeIcon } from './Icons';
+
+interface CompareViewProps {
+    slots: [CompareItem | null, CompareItem | null];
+    theme: 'light' | 'dark';
+    brandKit: BrandKit | null;
+    viewportSettings: ViewportSettings;
+    onViewportChange: (settings: ViewportSettings) => void;
+    onUnpin: (index: number) => void;
+    onSwap: () => void;
+    onClose: () => void;
+}
+
+const SLOT_LABELS = ['A', 'B'];
+
+const CompareView = ({ slots, theme, brandKit, viewportSettings, onViewportChange, onUnpin, onSwap, onClose }: CompareViewProps) => {
+    const [tab, setTab] = useState<'preview' | 'diff'>('preview');
+    const [before, after] = slots;
+    const viewports = useMemo(() => resolveViewports(viewportSettings), [viewportSettings]);
+
+    // Both sides are formatted first so whitespace and line wrapping don't show up as changes
+    const diff = useMemo(() => {
+        if (!before || !after) return null;
+        const lines = diffLines(formatHtml(before.artifact.html), formatHtml(after.artifact.html));
+        return { rows: collapseUnchanged(lines), stats: diffStats(lines) };
+    }, [before?.artifact.html, after?.artifact.html]);
+
+    return (
+        <div className="compare-page">
+            <div className="compare-toolbar">
+                <div className="compare-tabs">
+                    <button className={tab === 'preview' ? 'active' : ''} onClick={() => setTab('preview')}>
+                        <CompareIcon /> Side by side
+                    </button>
+                    <button className={tab === 'diff' ? 'active' : ''} onClick={() => setTab('diff')} disabled={!diff}>
+                        <CodeIcon /> Source diff
+                        {diff && <span className="compare-stats"><em>+{diff.stats.added}</em> <strong>−{diff.stats.removed}</strong></span>}
+                    </button>
+                </div>
+                {tab === 'preview' && <ViewportToolbar settings={viewportSettings} onChange={onViewportChange} />}
+                <div className="compare-tabs">
+                    <button onClick={onSwap} disabled={!before && !after} title="Swap A and B">A ⇄ B</button>
+                    <button onClick={onClose}><HomeIcon /> Back</button>
+                </div>
+            </div>
+
+            {tab === 'preview' || !diff ? (
+                <div className="compare-panes">
+                    {slots.map((item, i) => (
+                        <div key={i} className="compare-pane">
+                            <div className="compare-pane-header">
+                                <span className="compare-slot">{SLOT_LABELS[i]}</span>
+                                {item ? (
+                                    <>
+                                        <span className="compare-title">{item.artifact.styleName}</span>
+                                        <span className="compare-source">{item.source}</span>
+                                        <button className="compare-unpin" onClick={() => onUnpin(i)} title="Unpin">&times;</button>
+                                    </>
+                                ) : (
+                                    <span className="compare-source">Empty</span>
+                                )}
+                            </div>
+                            {item ? (
+                                <ArtifactCard
+                                    artifact={item.artifact}
+                                    isFocused={true}
+                                    theme={theme}
+                                    brandKit={brandKit}
+                                    viewports={viewports}
+                                    onClick={() => {}}
+                                />
+                            ) : (
+                                <div className="compare-empty">
+                                    <CompareIcon />
+                                    <p>Pin a component with <strong>Compare</strong> from focus mode, a variation or the vault.</p>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="compare-diff">
+                    {diff.stats.added === 0 && diff.stats.removed === 0 ? (
+                        <p className="compare-no-diff">The two components have identical source.</p>
+                    ) : (
+                        <pre>
+                            {diff.rows.map((row, i) => row.op === 'skipped' ? (
+                                <div key={i} className="diff-row skipped">⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}</div>
+                            ) : (
+                                <div key={i} className={`diff-row ${row.op}`}>
+                                    <span className="diff-num">{row.beforeLine ?? ''}</span>
+                                    <span className="diff-num">{row.afterLine ?? ''}</span>
+                                    <span className="diff-sign">{row.op === 'added' ? '+' : row.op === 'removed' ? '−' : ' '}</span>
+                                    <span className="diff-text">{row.text}</span>
+                                </div>
+                            ))}
+                        </pre>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CompareView;
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { BrandKit, PageSection, SavedArtifact, Session } from '../types';
+import { composePageHtml, createPageSection, moveSection } from '../services/composer';
+import { wrapInTemplate } from '../services/template';
+import { ArrowUpIcon, DownloadIcon, GripIcon, HomeIcon, PageIcon, TrashIcon } from './Icons';
+
+interface ComposerViewProps {
+    sections: PageSection[];
+    // Timeline and history sessions, newest first
+    sessions: Session[];
+    saved: SavedArtifact[];
+    theme: 'light' | 'dark';
+    brandKit: BrandKit | null;
+    onChange: (sections: PageSection[]) => void;
+    onExport: () => void;
+    onClose: () => void;
+}
+
+interface PaletteItem {
+    key: string;
+    styleName: string;
+    html: string;
+    source: string;
+}
+
+type DragItem = { kind: 'palette'; item: PaletteItem } | { kind: 'section'; index: number };
+
+const ComposerView = ({ sections, sessions, saved, theme, brandKit, onChange, onExport, onClose }: ComposerViewProps) => {
+    const [query, setQuery] = useState('');
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    // dataTransfer payloads can't be read during dragover, so the dragged item lives here
+    const dragRef = useRef<DragItem | null>(null);
+
+    const palette = useMemo(() => {
+        const fromSessions = sessions.flatMap(session => session.artifacts
+            .filter(a => a.status === 'complete' && a.html)
+            .map(a => ({ key: `${session.id}/${a.id}`, styleName: a.styleName, html: a.html, source: session.prompt })));
+        const fromVault = saved.map(s => ({ key: `vault/${s.id}`, styleName: s.styleName, html: s.html, source: 'Vault' }));
+        return [...fromVault, ...fromSessions];
+    }, [sessions, saved]);
+
+    const q = query.trim().toLowerCase();
+    const filtered = q
+        ? palette.filter(p => p.styleName.toLowerCase().includes(q) || p.source.toLowerCase().includes(q))
+        : palette;
+
+    const srcDoc = useMemo(
+        () => wrapInTemplate(composePageHtml(sections), theme, brandKit, { allowScripts: false }),
+        [sections, theme, brandKit]
+    );
+
+    const insertAt = (item: PaletteItem, index: number) => {
+        const next = [...sections];
+        next.splice(index, 0, createPageSection(item.styleName, item.html, item.source));
+        onChange(next);
+    };
+
+    const handleDrop = (index: number) => (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const drag = dragRef.current;
+        dragRef.current = null;
+        setIsDragging(false);
+        setDropIndex(null);
+        if (!drag) return;
+        if (drag.kind === 'palette') {
+            insertAt(drag.item, index);
+        } else {
+            // Dropping below its own position shifts the target up by the row being removed
+            onChange(moveSection(sections, drag.index, index > drag.index ? index - 1 : index));
+        }
+    };
+
+    const handleDragOver = (index: number) => (e: React.DragEvent) => {
+        if (!dragRef.current) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = dragRef.current.kind === 'palette' ? 'copy' : 'move';
+        if (dropIndex !== index) setDropIndex(index);
+    };
+
+    const startDrag = (drag: DragItem, label: string) => (e: React.DragEvent) => {
+        dragRef.current = drag;
+        setIsDragging(true);
+        e.dataTransfer.effectAllowed = drag.kind === 'palette' ? 'copy' : 'move';
+        // Firefox won't start a drag without some data
+        e.dataTransfer.setData('text/plain', label);
+    };
+
+    const endDrag = () => {
+        dragRef.current = null;
+        setIsDragging(false);
+        setDropIndex(null);
+    };
+
+    return (
+        <div className="composer-page">
+            <aside className="composer-sidebar">
+                <div className="composer-panel">
+                    <div className="composer-panel-header">
+                        <h3>Page</h3>
+                        <span>{sections.length} section{sections.length === 1 ? '' : 's'}</span>
+                    </div>
+                    <ol className="composer-sections" onDragOver={handleDragOver(sections.length)} onDrop={handleDrop(sections.length)}>
+                        {sections.map((section, i) => (
+                            <li
+                                key={section.id}
+                                className={`composer-section ${dropIndex === i ? 'drop-before' : ''}`}
+                                draggable
+                                onDragStart={startDrag({ kind: 'section', index: i }, section.styleName)}
+                                onDragEnd={endDrag}
+                                onDragOver={handleDragOver(i)}
+                                onDrop={handleDrop(i)}
+                            >
+                                <GripIcon />
+                                <div className="composer-item-info">
+                                    <span className="composer-item-title">{section.styleName}</span>
+                                    <span className="composer-item-source">{section.source}</span>
+                                </div>
+                                <button onClick={() => onChange(moveSection(sections, i, i - 1))} disabled={i === 0} aria-label="Move up">
+                                    <ArrowUpIcon />
+                                </button>
+                                <button onClick={() => onChange(moveSection(sections, i, i + 1))} disabled={i === sections.length - 1} aria-label="Move down" className="move-down">
+                                    <ArrowUpIcon />
+                                </button>
+                                <button onClick={() => onChange(sections.filter(s => s.id !== section.id))} aria-label="Remove section">
+                                    <TrashIcon />
+                                </button>
+                            </li>
+                        ))}
+                        <li className={`composer-drop-end ${dropIndex === sections.length ? 'active' : ''}`}>
+                            {sections.length === 0 ? 'Drag components here to start a page' : 'Drop here to add at the end'}
+                        </li>
+                    </ol>
+                </div>
+
+                <div className="composer-panel composer-palette">
+                    <div className="composer-panel-header">
+                        <h3>Components</h3>
+                        <span>{palette.length}</span>
+                    </div>
+                    <input
+                        className="history-search"
+                        type="search"
+                        placeholder="Search styles and prompts..."
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                    />
+                    {filtered.length === 0 ? (
+                        <p className="composer-empty-hint">
+                            {palette.length === 0 ? 'Generate or save some components first.' : 'Nothing matches your search.'}
+                        </p>
+                    ) : (
+                        <ul className="composer-palette-list">
+                            {filtered.map(item => (
+                                <li
+                                    key={item.key}
+                                    className="composer-palette-item"
+                                    draggable
+                                    onDragStart={startDrag({ kind: 'palette', item }, item.styleName)}
+                                    onDragEnd={endDrag}
+                                >
+                                    <GripIcon />
+                                    <div className="composer-item-info">
+                                        <span className="composer-item-title">{item.styleName}</span>
+                                        <span className="composer-item-source">{item.source}</span>
+                                    </div>
+                                    <button onClick={() => insertAt(item, sections.length)} aria-label={`Add ${item.styleName} to the page`}>+</button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </aside>
+
+            <section className={`composer-stage ${isDragging ? 'dragging' : ''}`} onDragOver={handleDragOver(sections.length)} onDrop={handleDrop(sections.length)}>
+                <div className="composer-toolbar">
+                    <button onClick={onExport} disabled={sections.length === 0}>
+                        <DownloadIcon /> Export Page
+                    </button>
+                    <button onClick={() => onChange([])} disabled={sections.length === 0}>
+                        <TrashIcon /> Clear
+                    </button>
+                    <button onClick={onClose}>
+                        <HomeIcon /> Back
+                    </button>
+                </div>
+                {sections.length === 0 ? (
+                    <div className="empty-vault-state">
+                        <PageIcon />
+                        <p>Drag a hero, a pricing table and a footer in from the list to compose a page.</p>
+                    </div>
+                ) : (
+                    <div className="composer-preview">
+                        <iframe srcDoc={srcDoc} title="Composed page" sandbox="allow-scripts" />
+                    </div>
+                )}
+            </section>
+        </div>
+    );
+};
+
+export default ComposerView;
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { GenerationMode, GenerationSettings } from '../types';
+import { DEFAULT_GENERATION_SETTINGS, MAX_DIRECTIONS, MIN_DIRECTIONS } from '../constants';
+import { clampDirections } from '../services/settings';
+
+interface GenerationSettingsPanelProps {
+    settings: GenerationSettings;
+    defaultModel: string;
+    onChange: (settings: GenerationSettings) => void;
+}
+
+const GenerationSettingsPanel = ({ settings, defaultModel, onChange }: GenerationSettingsPanelProps) => {
+    return (
+        <div className="settings-form">
+            <label className="settings-field">
+                <span>Mode</span>
+                <select 
+                    value={settings.mode} 
+                    onChange={(e) => onChange({ ...settings, mode: e.target.value as GenerationMode })}
+                >
+                    <option value="component">Single component</option>
+                    <option value="system">Design system (buttons, inputs, cards, nav, modal)</option>
+                </select>
+            </label>
+
+            <label className="settings-field">
+                <span>Directions <strong className="settings-value">{settings.directionCount}</strong></span>
+                <input 
+                    type="range" 
+                    min={MIN_DIRECTIONS} 
+                    max={MAX_DIRECTIONS} 
+                    step={1} 
+                    value={settings.directionCount} 
+                    onChange={(e) => onChange({ ...settings, directionCount: clampDirections(Number(e.target.value)) })} 
+                />
+            </label>
+
+            <label className="settings-field">
+                <span>Temperature <strong className="settings-value">{settings.temperature.toFixed(1)}</strong></span>
+                <input 
+                    type="range" 
+                    min={0} 
+                    max={2} 
+                    step={0.1} 
+                    value={settings.temperature} 
+                    onChange={(e) => onChange({ ...settings, temperature: Number(e.target.value) })} 
+                />
+            </label>
+
+            <label className="settings-field">
+                <span>Model</span>
+                <input 
+                    type="text" 
+                    placeholder={defaultModel} 
+                    value={settings.model} 
+                    onChange={(e) => onChange({ ...settings, model: e.target.value })} 
+                />
+            </label>
+
+            <label className="settings-field">
+                <span>Invalid output</span>
+                <select 
+                    value={settings.autoRepair ? 'repair' : 'flag'} 
+                    onChange={(e) => onChange({ ...settings, autoRepair: e.target.value === 'repair' })}
+                >
+                    <option value="flag">Flag with warnings</option>
+                    <option value="repair">Flag and run one continue/repair pass</option>
+                </select>
+            </label>
+
+            <label className="settings-field">
+                <span>Custom system instruction</span>
+                <textarea 
+                    rows={5} 
+                    placeholder="Layered on top of the built-in UI engineer instruction, e.g. 'Always include an empty state.'" 
+                    value={settings.customInstruction} 
+                    onChange={(e) => onChange({ ...settings, customInstruction: e.target.value })} 
+                />
+            </label>
+
+            <button className="settings-reset" onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)}>
+                Reset to defaults
+            </button>
+            <p className="settings-hint">Applied to every new prompt and to variations.</p>
+        </div>
+    );
+};
+
+export default GenerationSettingsPanel;
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { PromptTemplate } from '../types';
+import {
+    DEFAULT_CATEGORY,
+    createPromptTemplate,
+    extractVariables,
+    fillTemplate,
+    matchesPromptQuery,
+    promptCategories
+} from '../services/prompts';
+import { DownloadIcon, PencilIcon, SparklesIcon, TrashIcon, UploadIcon } from './Icons';
+
+interface PromptLibraryPanelProps {
+    templates: PromptTemplate[];
+    // What's in the prompt box, offered as the text of a new template
+    draft: string;
+    notice: string | null;
+    disabled: boolean;
+    onChange: (templates: PromptTemplate[]) => void;
+    onUse: (prompt: string) => void;
+    onExport: () => void;
+    onImport: (file: File) => void;
+}
+
+const PromptLibraryPanel = ({ templates, draft, notice, disabled, onChange, onUse, onExport, onImport }: PromptLibraryPanelProps) => {
+    const [query, setQuery] = useState('');
+    const [editing, setEditing] = useState<PromptTemplate | null>(null);
+    const [filling, setFilling] = useState<PromptTemplate | null>(null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const categories = promptCategories(templates);
+    const q = query.trim();
+    const visible = q ? templates.filter(t => matchesPromptQuery(t, q)) : templates;
+
+    const handleUse = (template: PromptTemplate) => {
+        if (extractVariables(template.text).length === 0) {
+            onUse(template.text);
+            return;
+        }
+        setValues({});
+        setFilling(template);
+    };
+
+    const handleSaveEdit = () => {
+        if (!editing || !editing.text.trim()) return;
+        const template = {
+            ...editing,
+            name: editing.name.trim() || editing.text.trim().slice(0, 40),
+            category: editing.category.trim() || DEFAULT_CATEGORY
+        };
+        const exists = templates.some(t => t.id === template.id);
+        onChange(exists ? templates.map(t => t.id === template.id ? template : t) : [...templates, template]);
+        setEditing(null);
+    };
+
+    if (filling) {
+        const variables = extractVariables(filling.text);
+        const preview = fillTemplate(filling.text, values);
+        const missing = variables.filter(v => !values[v]?.trim());
+        return (
+            <div className="settings-form">
+                <h3 className="prompt-form-title">{filling.name}</h3>
+                {variables.map((variable, i) => (
+                    <label key={variable} className="settings-field">
+                        <span>{variable}</span>
+                        <input
+                            type="text"
+                            value={values[variable] || ''}
+                            onChange={(e) => setValues(prev => ({ ...prev, [variable]: e.target.value }))}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !missing.length && !disabled) onUse(preview);
+                            }}
+                            autoFocus={i === 0}
+                        />
+                    </label>
+                ))}
+                <p className="prompt-preview">{preview}</p>
+                <div className="prompt-form-actions">
+                    <button className="a11y-fix" onClick={() => onUse(preview)} disabled={disabled || missing.length > 0}>
+                        <SparklesIcon /> Generate
+                    </button>
+                    <button className="settings-reset" onClick={() => setFilling(null)}>Back</button>
+                </div>
+            </div>
+        );
+    }
+
+    if (editing) {
+        const variables = extractVariables(editing.text);
+        return (
+            <div className="settings-form">
+                <label className="settings-field">
+                    <span>Name</span>
+                    <input type="text" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} autoFocus />
+                </label>
+                <label className="settings-field">
+                    <span>Category</span>
+                    <input
+                        type="text"
+                        list="prompt-categories"
+                        placeholder={DEFAULT_CATEGORY}
+                        value={editing.category}
+                        onChange={(e) => setEditing({ ...editing, category: e.target.value })}
+                    />
+                    <datalist id="prompt-categories">
+                        {categories.map(c => <option key={c} value={c} />)}
+                    </datalist>
+                </label>
+                <label className="settings-field">
+                    <span>Prompt</span>
+                    <textarea
+                        rows={5}
+                        placeholder="A pricing table for {{product name}} in a {{palette}} palette, aimed at {{audience}}"
+                        value={editing.text}
+                        onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                    />
+                </label>
+                <p className="settings-hint">
+                    {variables.length
+                        ? `Variables: ${variables.join(', ')}`
+                        : 'Wrap words in {{double braces}} to fill them in each time you use the prompt.'}
+                </p>
+                <div className="prompt-form-actions">
+                    <button className="a11y-fix" onClick={handleSaveEdit} disabled={!editing.text.trim()}>Save prompt</button>
+                    <button className="settings-reset" onClick={() => setEditing(null)}>Cancel</button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="settings-form">
+            <div className="prompt-toolbar">
+                <button className="settings-reset" onClick={() => setEditing(createPromptTemplate('', draft.trim()))}>
+                    + {draft.trim() ? 'Save current prompt' : 'New prompt'}
+                </button>
+                <button className="settings-reset" onClick={onExport} disabled={templates.length === 0}>
+                    <DownloadIcon /> Export
+                </button>
+                <button className="settings-reset" onClick={() => importInputRef.current?.click()}>
+                    <UploadIcon /> Import
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    hidden
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onImport(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+            {notice && <p className="settings-hint">{notice}</p>}
+
+            {templates.length > 0 && (
+                <input
+                    className="history-search"
+                    type="search"
+                    placeholder="Search prompts..."
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                />
+            )}
+
+            {templates.length === 0 ? (
+                <p className="settings-hint">No saved prompts yet. Save the one in the prompt box, or import a library from your team.</p>
+            ) : visible.length === 0 ? (
+                <p className="settings-hint">Nothing matches your search.</p>
+            ) : (
+                categories.filter(c => visible.some(t => t.category === c)).map(category => (
+                    <section key={category} className="a11y-group">
+                        <h3>{category} <span>{visible.filter(t => t.category === category).length}</span></h3>
+                        <ul className="prompt-list">
+                            {visible.filter(t => t.category === category).map(template => (
+                                <li key={template.id} className="prompt-item">
+                                    <button className="prompt-use" onClick={() => handleUse(template)} disabled={disabled} title={template.text}>
+                                        <span className="prompt-name">{template.name}</span>
+                                        <span className="prompt-text">{template.text}</span>
+                                    </button>
+                                    <button onClick={() => setEditing(template)} aria-label={`Edit ${template.name}`}>
+                                        <PencilIcon />
+                                    </button>
+                                    <button onClick={() => onChange(templates.filter(t => t.id !== template.id))} aria-label={`Delete ${template.name}`}>
+                                        <TrashIcon />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                ))
+            )}
+        </div>
+    );
+};
+
+export default PromptLibraryPanel;
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { createProvider, DEFAULT_MODELS, PROVIDER_LABELS, ProviderConfig, ProviderKind } from '../services/providers';
+
+interface ProviderSettingsProps {
+    config: ProviderConfig;
+    onChange: (config: ProviderConfig) => void;
+}
+
+const ProviderSettings = ({ config, onChange }: ProviderSettingsProps) => {
+    const [models, setModels] = useState<string[]>([]);
+    // Endpoint and key as of the last blur, so models aren't listed with a half-typed key
+    const [credentials, setCredentials] = useState({ baseUrl: config.baseUrl, apiKey: config.apiKey });
+
+    const commitCredentials = () => setCredentials(prev =>
+        prev.baseUrl === config.baseUrl && prev.apiKey === config.apiKey ? prev : { baseUrl: config.baseUrl, apiKey: config.apiKey }
+    );
+
+    // Refresh the model list whenever the provider or committed credentials change
+    useEffect(() => {
+        let cancelled = false;
+        createProvider({ ...config, ...credentials }).listModels().then(list => {
+            if (!cancelled) setModels(list);
+        });
+        return () => { cancelled = true; };
+    }, [config.kind, credentials]);
+
+    const handleKindChange = (kind: ProviderKind) => {
+        onChange({ ...config, kind, model: DEFAULT_MODELS[kind] });
+    };
+
+    return (
+        <div className="settings-form">
+            <label className="settings-field">
+                <span>Provider</span>
+                <select value={config.kind} onChange={(e) => handleKindChange(e.target.value as ProviderKind)}>
+                    {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+                        <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+                    ))}
+                </select>
+            </label>
+
+            {config.kind === 'openai' && (
+                <label className="settings-field">
+                    <span>Base URL</span>
+                    <input 
+                        type="url" 
+                        placeholder="https://gateway.example.com/v1" 
+                        value={config.baseUrl} 
+                        onChange={(e) => onChange({ ...config, baseUrl: e.target.value })} 
+                        onBlur={commitCredentials} 
+                    />
+                </label>
+            )}
+
+            {config.kind !== 'mock' && (
+                <label className="settings-field">
+                    <span>API Key</span>
+                    <input 
+                        type="password" 
+                        placeholder={config.kind === 'gemini' ? 'Uses GEMINI_API_KEY when empty' : ''} 
+                        value={config.apiKey} 
+                        onChange={(e) => onChange({ ...config, apiKey: e.target.value })} 
+                        onBlur={commitCredentials} 
+                    />
+                </label>
+            )}
+
+            <label className="settings-field">
+                <span>Model</span>
+                <input 
+                    type="text" 
+                    list="provider-models" 
+                    value={config.model} 
+                    onChange={(e) => onChange({ ...config, model: e.target.value })} 
+                />
+                <datalist id="provider-models">
+                    {models.map(m => <option key={m} value={m} />)}
+                </datalist>
+            </label>
+
+            <p className="settings-hint">Settings are stored locally in your browser.</p>
+        </div>
+    );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+
+interface ScaledFrameProps {
+    width: number;
+    height: number;
+    children?: React.ReactNode;
+}
+
+// Renders children at an exact pixel size, scaled down to fit the available space.
+const ScaledFrame = ({ width, height, children }: ScaledFrameProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scale, setScale] = useState(1);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const update = () => {
+            const rect = container.getBoundingClientRect();
+            setScale(Math.min(1, rect.width / width, rect.height / height));
+        };
+        const ro = new ResizeObserver(update);
+        ro.observe(container);
+        update();
+        return () => ro.disconnect();
+    }, [width, height]);
+
+    return (
+        <div ref={containerRef} className="scaled-frame-container">
+            <div 
+                className="scaled-frame" 
+                style={{ width, height, transform: `translate(-50%, -50%) scale(${scale})` }}
+            >
+                {children}
+            </div>
+        </div>
+    );
+};
+
+export default ScaledFrame;
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { BrandKit, Session } from '../types';
+import ArtifactCard from './ArtifactCard';
+import { HistoryIcon, HomeIcon, TrashIcon } from './Icons';
+
+interface SessionHistoryProps {
+    history: Session[];
+    theme: 'light' | 'dark';
+    brandKit: BrandKit | null;
+    onOpen: (session: Session) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+const matchesQuery = (session: Session, query: string) => {
+    const q = query.toLowerCase();
+    return session.prompt.toLowerCase().includes(q) ||
+        session.artifacts.some(a => a.styleName.toLowerCase().includes(q));
+};
+
+const SessionHistory = ({ history, theme, brandKit, onOpen, onDelete, onClose }: SessionHistoryProps) => {
+    const [query, setQuery] = useState('');
+    const filtered = query.trim() ? history.filter(s => matchesQuery(s, query.trim())) : history;
+
+    return (
+        <div className="stack-page">
+            <div className="stack-content">
+                <div className="vault-header-mood">
+                    <h1>History</h1>
+                    <p>Every prompt you've run, stored locally in your browser</p>
+                </div>
+
+                <input 
+                    className="history-search" 
+                    type="search" 
+                    placeholder="Search prompts and styles..." 
+                    value={query} 
+                    onChange={(e) => setQuery(e.target.value)} 
+                />
+
+                {filtered.length === 0 ? (
+                    <div className="empty-vault-state">
+                        <HistoryIcon />
+                        <p>{history.length === 0 ? 'No sessions yet. Generate something to start your history.' : 'No sessions match your search.'}</p>
+                    </div>
+                ) : (
+                    <div className="moodboard-grid">
+                        {filtered.map(session => {
+                            const preview = session.artifacts.find(a => a.status === 'complete') || session.artifacts[0];
+                            return (
+                                <div key={session.id} className="mood-item">
+                                    <div className="mood-preview" onClick={() => onOpen(session)}>
+                                        {preview && (
+                                            <ArtifactCard 
+                                                artifact={preview} 
+                                                isFocused={false} 
+                                                theme={theme}
+                                                brandKit={brandKit}
+                                                onClick={() => {}}
+                                            />
+                                        )}
+                                        <div className="mood-overlay">
+                                            <span>Reopen</span>
+                                        </div>
+                                    </div>
+                                    <div className="mood-footer">
+                                        <div className="mood-info">
+                                            <span className="mood-title">{session.prompt}</span>
+                                            <span className="mood-prompt">
+                                                {new Date(session.timestamp).toLocaleString()} · {session.artifacts.length} directions
+                                            </span>
+                                        </div>
+                                        <button className="mood-delete" onClick={() => onDelete(session.id)}>
+                                            <TrashIcon />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                <button className="back-btn" onClick={onClose} style={{ marginTop: '40px' }}>
+                    <HomeIcon /> Return Home
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SessionHistory;
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { Session } from '../types';
+import { SessionNode, buildSessionTree, describeBranch } from '../services/branches';
+import { BranchIcon, HomeIcon } from './Icons';
+
+interface SessionTreeProps {
+    // Timeline and history sessions
+    sessions: Session[];
+    currentSessionId?: string;
+    onOpen: (session: Session, artifactIndex: number | null) => void;
+    onClose: () => void;
+}
+
+const SessionTree = ({ sessions, currentSessionId, onOpen, onClose }: SessionTreeProps) => {
+    const [branchedOnly, setBranchedOnly] = useState(true);
+    const tree = useMemo(() => buildSessionTree(sessions), [sessions]);
+    const visible = branchedOnly ? tree.filter(node => node.children.length > 0 || node.session.parent) : tree;
+
+    const renderNode = (node: SessionNode) => {
+        const { session } = node;
+        // Which of this session's directions each child branched from
+        const branchCounts = new Map<string, number>();
+        node.children.forEach(c => branchCounts.set(c.session.parent!.artifactId, (branchCounts.get(c.session.parent!.artifactId) || 0) + 1));
+
+        return (
+            <li key={session.id}>
+                <div className={`branch-node ${session.id === currentSessionId ? 'current' : ''}`}>
+                    <button className="branch-title" onClick={() => onOpen(session, null)}>
+                        {session.parent && <span className="branch-origin">{describeBranch(session.parent)}</span>}
+                        <span className="branch-prompt">{session.prompt}</span>
+                        <span className="branch-time">{new Date(session.timestamp).toLocaleString()}</span>
+                    </button>
+                    <div className="branch-artifacts">
+                        {session.artifacts.map((artifact, i) => (
+                            <button
+                                key={artifact.id}
+                                className={`branch-chip ${artifact.status}`}
+                                onClick={() => onOpen(session, i)}
+                                title={`Open ${artifact.styleName}`}
+                            >
+                                {artifact.styleName}
+                                {branchCounts.has(artifact.id) && (
+                                    <span className="branch-count"><BranchIcon /> {branchCounts.get(artifact.id)}</span>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {node.children.length > 0 && <ul className="branch-children">{node.children.map(renderNode)}</ul>}
+            </li>
+        );
+    };
+
+    return (
+        <div className="stack-page">
+            <div className="stack-content">
+                <div className="vault-header-mood">
+                    <h1>Branches</h1>
+                    <p>How directions evolved through variations, refinements and restores</p>
+                </div>
+
+                <div className="branch-toolbar">
+                    <label>
+                        <input type="checkbox" checked={branchedOnly} onChange={(e) => setBranchedOnly(e.target.checked)} />
+                        Only sessions with branches
+                    </label>
+                    <button className="settings-reset" onClick={onClose}>
+                        <HomeIcon /> Back
+                    </button>
+                </div>
+
+                {visible.length === 0 ? (
+                    <div className="empty-vault-state">
+                        <BranchIcon />
+                        <p>
+                            {sessions.length === 0
+                                ? 'No sessions yet. Generate something to start a tree.'
+                                : 'Nothing has branched yet. Open variations or refine in a new branch, or restore from the vault.'}
+                        </p>
+                    </div>
+                ) : (
+                    <ul className="branch-tree">{visible.map(renderNode)}</ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SessionTree;
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Command, formatBinding, groupCommands } from '../services/shortcuts';
+
+interface ShortcutHelpProps {
+    commands: Command[];
+    onClose: () => void;
+}
+
+const ShortcutHelp = ({ commands, onClose }: ShortcutHelpProps) => {
+    // Every shortcut is listed, including ones that don't apply right now
+    const groups = groupCommands(commands.filter(c => c.binding));
+
+    return (
+        <div className="palette-overlay" onClick={onClose}>
+            <div className="palette shortcut-help" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Keyboard shortcuts">
+                <div className="drawer-header">
+                    <h2>Keyboard Shortcuts</h2>
+                    <button onClick={onClose} className="close-button">&times;</button>
+                </div>
+                <div className="shortcut-groups">
+                    {groups.map(([group, list]) => (
+                        <section key={group} className="shortcut-group">
+                            <h3>{group}</h3>
+                            <dl>
+                                {list.map(command => (
+                                    <React.Fragment key={command.id}>
+                                        <dt>{command.label}</dt>
+                                        <dd><kbd>{formatBinding(command.binding!)}</kbd></dd>
+                                    </React.Fragment>
+                                ))}
+                            </dl>
+                        </section>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShortcutHelp;
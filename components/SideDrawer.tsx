@@ -9,14 +9,15 @@ interface SideDrawerProps {
     isOpen: boolean;
     onClose: () => void;
     title: string;
+    className?: string;
     children?: React.ReactNode;
 }
 
-const SideDrawer = ({ isOpen, onClose, title, children }: SideDrawerProps) => {
+const SideDrawer = ({ isOpen, onClose, title, className = '', children }: SideDrawerProps) => {
     if (!isOpen) return null;
 
     return (
-        <div className="drawer-overlay" onClick={onClose}>
+        <div className={`drawer-overlay ${className}`} onClick={onClose}>
             <div className="drawer-content" onClick={(e) => e.stopPropagation()}>
                 <div className="drawer-header">
                     <h2>{title}</h2>
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Session, UsageTotals } from '../types';
+import {
+    DailyUsageLog,
+    DEFAULT_USAGE_SETTINGS,
+    EMPTY_USAGE,
+    UsageSettings,
+    dayKey,
+    estimateCost,
+    formatCost,
+    formatTokens,
+    sessionUsage
+} from '../services/usage';
+
+interface UsagePanelProps {
+    settings: UsageSettings;
+    daily: DailyUsageLog;
+    session?: Session;
+    onChange: (settings: UsageSettings) => void;
+}
+
+const RECENT_DAYS = 7;
+
+const PRICE_FIELDS: { key: keyof UsageSettings; label: string; step: number }[] = [
+    { key: 'inputPricePerMillion', label: 'Input price (USD per 1M tokens)', step: 0.05 },
+    { key: 'outputPricePerMillion', label: 'Output price (USD per 1M tokens)', step: 0.05 },
+    { key: 'dailyBudget', label: 'Daily budget (USD, 0 = no limit)', step: 0.5 }
+];
+
+const UsagePanel = ({ settings, daily, session, onChange }: UsagePanelProps) => {
+    const today = daily[dayKey()] || EMPTY_USAGE;
+    const todayCost = estimateCost(today, settings);
+    const recentDays = Object.keys(daily).sort().reverse().slice(0, RECENT_DAYS);
+
+    const renderRow = (key: string, label: string, totals: UsageTotals) => (
+        <li key={key} className="usage-row">
+            <span className="usage-label">{label}</span>
+            <span className="usage-tokens">
+                {totals.estimated && '~'}{formatTokens(totals.inputTokens)} in · {formatTokens(totals.outputTokens)} out
+            </span>
+            <span className="usage-cost">{formatCost(estimateCost(totals, settings))}</span>
+        </li>
+    );
+
+    return (
+        <div className="settings-form">
+            <section className="usage-summary">
+                <span className="usage-big">{formatCost(todayCost)}</span>
+                <span>
+                    today · {today.calls} call{today.calls === 1 ? '' : 's'} · {today.estimated && '~'}{formatTokens(today.inputTokens + today.outputTokens)} tokens
+                </span>
+                {settings.dailyBudget > 0 && (
+                    <>
+                        <div className="storage-meter usage-meter">
+                            <div
+                                className={todayCost >= settings.dailyBudget ? 'over' : ''}
+                                style={{ width: `${Math.min(100, todayCost / settings.dailyBudget * 100)}%` }}
+                            />
+                        </div>
+                        <span>
+                            {todayCost >= settings.dailyBudget
+                                ? `Daily budget of ${formatCost(settings.dailyBudget)} reached. New generations are paused until tomorrow.`
+                                : `${formatCost(settings.dailyBudget - todayCost)} left of ${formatCost(settings.dailyBudget)} today`}
+                        </span>
+                    </>
+                )}
+            </section>
+
+            {session && (
+                <section className="a11y-group">
+                    <h3>This session <span>{formatCost(estimateCost(sessionUsage(session), settings))}</span></h3>
+                    <ul className="usage-list">
+                        {session.usage && renderRow('session', 'Direction names', session.usage)}
+                        {session.artifacts.filter(a => a.usage).map(a => renderRow(a.id, a.styleName, a.usage!))}
+                    </ul>
+                </section>
+            )}
+
+            {recentDays.length > 0 && (
+                <section className="a11y-group">
+                    <h3>Last {RECENT_DAYS} days</h3>
+                    <ul className="usage-list">
+                        {recentDays.map(day => renderRow(day, day, daily[day]))}
+                    </ul>
+                </section>
+            )}
+
+            {PRICE_FIELDS.map(({ key, label, step }) => (
+                <label key={key} className="settings-field">
+                    <span>{label}</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step={step}
+                        value={settings[key]}
+                        onChange={(e) => onChange({ ...settings, [key]: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                </label>
+            ))}
+
+            <button className="settings-reset" onClick={() => onChange(DEFAULT_USAGE_SETTINGS)}>
+                Reset to defaults
+            </button>
+            <p className="settings-hint">
+                Costs are estimates from the prices above. Counts marked ~ include calls whose provider reported no usage, estimated at four characters per token.
+            </p>
+        </div>
+    );
+};
+
+export default UsagePanel;
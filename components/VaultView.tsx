@@ -0,0 +1,292 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { BrandKit, SavedArtifact, VaultCollection } from '../types';
+import { matchesVaultQuery, parseTags, VaultState } from '../services/vault';
+import { StorageUsage } from '../services/storage/db';
+import { formatBytes } from '../utils';
+import ArtifactCard from './ArtifactCard';
+import { BookmarkIcon, CompareIcon, DownloadIcon, HomeIcon, PencilIcon, TrashIcon, UploadIcon } from './Icons';
+
+interface VaultViewProps {
+    vault: VaultState;
+    theme: 'light' | 'dark';
+    brandKit: BrandKit | null;
+    // Result of the last import or export, shown under the toolbar
+    notice: string | null;
+    // Origin-wide figures from the Storage API; null where unsupported
+    usage: StorageUsage | null;
+    onRestore: (saved: SavedArtifact) => void;
+    onRemove: (id: string) => void;
+    onCompare: (saved: SavedArtifact) => void;
+    onUpdate: (id: string, patch: Partial<SavedArtifact>) => void;
+    onCreateCollection: (name: string) => void;
+    onDeleteCollection: (id: string) => void;
+    onExport: (format: 'json' | 'zip', collectionId: string | null) => void;
+    onImport: (file: File) => void;
+    onClose: () => void;
+}
+
+interface VaultItemEditorProps {
+    saved: SavedArtifact;
+    collections: VaultCollection[];
+    onUpdate: (patch: Partial<SavedArtifact>) => void;
+}
+
+const VaultItemEditor = ({ saved, collections, onUpdate }: VaultItemEditorProps) => {
+    const [tagDraft, setTagDraft] = useState((saved.tags || []).join(', '));
+    const commitTags = () => onUpdate({ tags: parseTags(tagDraft) });
+
+    const toggleCollection = (id: string) => {
+        const current = saved.collectionIds || [];
+        onUpdate({ collectionIds: current.includes(id) ? current.filter(c => c !== id) : [...current, id] });
+    };
+
+    return (
+        <div className="mood-editor settings-form">
+            <label className="settings-field">
+                <span>Tags</span>
+                <input
+                    type="text"
+                    placeholder="pricing, dark, glass"
+                    value={tagDraft}
+                    onChange={(e) => setTagDraft(e.target.value)}
+                    onBlur={commitTags}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitTags(); }}
+                />
+            </label>
+            <label className="settings-field">
+                <span>Notes</span>
+                <textarea rows={3} value={saved.notes || ''} onChange={(e) => onUpdate({ notes: e.target.value })} />
+            </label>
+            {collections.length > 0 && (
+                <div className="settings-field">
+                    <span>Collections</span>
+                    <div className="vault-chips">
+                        {collections.map(c => (
+                            <button
+                                key={c.id}
+                                className={`vault-chip ${saved.collectionIds?.includes(c.id) ? 'active' : ''}`}
+                                onClick={() => toggleCollection(c.id)}
+                            >
+                                {c.name}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const VaultView = ({
+    vault,
+    theme,
+    brandKit,
+    notice,
+    usage,
+    onRestore,
+    onRemove,
+    onCompare,
+    onUpdate,
+    onCreateCollection,
+    onDeleteCollection,
+    onExport,
+    onImport,
+    onClose
+}: VaultViewProps) => {
+    const [query, setQuery] = useState('');
+    const [collectionId, setCollectionId] = useState<string | null>(null);
+    const [tag, setTag] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [newCollectionName, setNewCollectionName] = useState('');
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const activeCollection = vault.collections.find(c => c.id === collectionId) || null;
+    const allTags = useMemo(
+        () => Array.from(new Set(vault.artifacts.flatMap(a => a.tags || []))).sort(),
+        [vault.artifacts]
+    );
+    // Rough size of the vault's own records, next to what the whole site uses
+    const vaultBytes = useMemo(() => new Blob([JSON.stringify(vault)]).size, [vault]);
+    const filtered = vault.artifacts.filter(a =>
+        (!activeCollection || a.collectionIds?.includes(activeCollection.id)) &&
+        (!tag || a.tags?.includes(tag)) &&
+        (!query.trim() || matchesVaultQuery(a, query.trim()))
+    );
+
+    const handleCreateCollection = () => {
+        const name = newCollectionName.trim();
+        if (!name) return;
+        onCreateCollection(name);
+        setNewCollectionName('');
+    };
+
+    const handleDeleteCollection = (id: string) => {
+        onDeleteCollection(id);
+        if (collectionId === id) setCollectionId(null);
+    };
+
+    return (
+        <div className="stack-page">
+            <div className="stack-content">
+                <div className="vault-header-mood">
+                    <h1>Vault Moodboard</h1>
+                    <p>
+                        {vault.artifacts.length} saved · {formatBytes(vaultBytes)} stored locally in your browser
+                        {usage && usage.quota > 0 && ` · ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used by this site`}
+                    </p>
+                    {usage && usage.quota > 0 && (
+                        <div className="storage-meter" title={`${Math.round(usage.usage / usage.quota * 100)}% of available storage`}>
+                            <div style={{ width: `${Math.min(100, usage.usage / usage.quota * 100)}%` }} />
+                        </div>
+                    )}
+                </div>
+
+                <div className="vault-toolbar">
+                    <input
+                        className="history-search"
+                        type="search"
+                        placeholder="Search styles, prompts, notes and tags..."
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                    />
+                    <div className="vault-actions">
+                        <button onClick={() => onExport('json', collectionId)} disabled={vault.artifacts.length === 0}>
+                            <DownloadIcon /> JSON
+                        </button>
+                        <button onClick={() => onExport('zip', collectionId)} disabled={vault.artifacts.length === 0}>
+                            <DownloadIcon /> ZIP
+                        </button>
+                        <button onClick={() => importInputRef.current?.click()}>
+                            <UploadIcon /> Import
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept=".json,.zip,application/json,application/zip"
+                            hidden
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImport(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+                </div>
+
+                <div className="vault-chips">
+                    <button className={`vault-chip ${!activeCollection ? 'active' : ''}`} onClick={() => setCollectionId(null)}>
+                        All <span>{vault.artifacts.length}</span>
+                    </button>
+                    {vault.collections.map(c => (
+                        <span key={c.id} className={`vault-chip ${collectionId === c.id ? 'active' : ''}`}>
+                            <button onClick={() => setCollectionId(c.id)}>
+                                {c.name} <span>{vault.artifacts.filter(a => a.collectionIds?.includes(c.id)).length}</span>
+                            </button>
+                            <button className="vault-chip-remove" onClick={() => handleDeleteCollection(c.id)} title="Delete collection (keeps its components)">
+                                &times;
+                            </button>
+                        </span>
+                    ))}
+                    <input
+                        className="vault-chip-input"
+                        type="text"
+                        placeholder="+ New collection"
+                        value={newCollectionName}
+                        onChange={(e) => setNewCollectionName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleCreateCollection(); }}
+                        onBlur={handleCreateCollection}
+                    />
+                </div>
+
+                {allTags.length > 0 && (
+                    <div className="vault-chips tags">
+                        {allTags.map(t => (
+                            <button key={t} className={`vault-chip ${tag === t ? 'active' : ''}`} onClick={() => setTag(tag === t ? null : t)}>
+                                #{t}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {notice && <p className="vault-notice">{notice}</p>}
+
+                {filtered.length === 0 ? (
+                    <div className="empty-vault-state">
+                        <BookmarkIcon />
+                        <p>
+                            {vault.artifacts.length === 0
+                                ? 'No components saved yet. Star your favorites to see them here.'
+                                : 'Nothing in the vault matches these filters.'}
+                        </p>
+                        {vault.artifacts.length === 0 && (
+                            <button className="surprise-button" onClick={onClose}>Return to Generate</button>
+                        )}
+                    </div>
+                ) : (
+                    <div className="moodboard-grid">
+                        {filtered.map(saved => (
+                            <div key={saved.id} className="mood-item">
+                                <div className="mood-preview" onClick={() => onRestore(saved)}>
+                                    <ArtifactCard
+                                        artifact={saved}
+                                        isFocused={false}
+                                        theme={theme}
+                                        brandKit={brandKit}
+                                        onClick={() => {}}
+                                    />
+                                    <div className="mood-overlay">
+                                        <span>Restore</span>
+                                    </div>
+                                </div>
+                                <div className="mood-footer">
+                                    <div className="mood-info">
+                                        <span className="mood-title">{saved.styleName}</span>
+                                        <span className="mood-prompt">{saved.prompt}</span>
+                                        {saved.tags && saved.tags.length > 0 && (
+                                            <span className="mood-tags">{saved.tags.map(t => `#${t}`).join(' ')}</span>
+                                        )}
+                                    </div>
+                                    <div className="mood-buttons">
+                                        <button className="mood-delete mood-edit" onClick={() => onCompare(saved)} title="Pin for compare">
+                                            <CompareIcon />
+                                        </button>
+                                        <button
+                                            className={`mood-delete mood-edit ${editingId === saved.id ? 'active' : ''}`}
+                                            onClick={() => setEditingId(editingId === saved.id ? null : saved.id)}
+                                            title="Tags, notes and collections"
+                                        >
+                                            <PencilIcon />
+                                        </button>
+                                        <button className="mood-delete" onClick={() => onRemove(saved.id)}>
+                                            <TrashIcon />
+                                        </button>
+                                    </div>
+                                </div>
+                                {editingId === saved.id ? (
+                                    <VaultItemEditor
+                                        saved={saved}
+                                        collections={vault.collections}
+                                        onUpdate={(patch) => onUpdate(saved.id, patch)}
+                                    />
+                                ) : saved.notes && (
+                                    <p className="mood-notes">{saved.notes}</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <button className="back-btn" onClick={onClose} style={{ marginTop: '40px' }}>
+                    <HomeIcon /> Return Home
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default VaultView;
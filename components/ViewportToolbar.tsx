@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ViewportPreset, ViewportSettings, VIEWPORT_PRESETS } from '../services/viewports';
+import { ColumnsIcon, MonitorIcon, PhoneIcon, RotateIcon, TabletIcon, MaximizeIcon } from './Icons';
+
+interface ViewportToolbarProps {
+    settings: ViewportSettings;
+    onChange: (settings: ViewportSettings) => void;
+}
+
+const PRESET_BUTTONS: { preset: ViewportPreset; label: string; icon: React.ReactNode }[] = [
+    { preset: 'fill', label: 'Fit to stage', icon: <MaximizeIcon /> },
+    { preset: 'mobile', label: `Mobile ${VIEWPORT_PRESETS.mobile.width}`, icon: <PhoneIcon /> },
+    { preset: 'tablet', label: `Tablet ${VIEWPORT_PRESETS.tablet.width}`, icon: <TabletIcon /> },
+    { preset: 'desktop', label: `Desktop ${VIEWPORT_PRESETS.desktop.width}`, icon: <MonitorIcon /> }
+];
+
+const clampSize = (value: number) => Math.min(3840, Math.max(240, Math.round(value) || 240));
+
+// Holds what's typed and clamps on blur or Enter, so a size can be typed digit by digit
+const SizeInput = ({ label, value, onCommit }: { label: string; value: number; onCommit: (value: number) => void }) => {
+    const [draft, setDraft] = useState(String(value));
+
+    useEffect(() => setDraft(String(value)), [value]);
+
+    const commit = () => {
+        const next = clampSize(Number(draft));
+        setDraft(String(next));
+        if (next !== value) onCommit(next);
+    };
+
+    return (
+        <input 
+            type="number" 
+            aria-label={label} 
+            value={draft} 
+            onChange={(e) => setDraft(e.target.value)} 
+            onBlur={commit} 
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commit();
+            }} 
+        />
+    );
+};
+
+const ViewportToolbar = ({ settings, onChange }: ViewportToolbarProps) => {
+    const select = (preset: ViewportPreset) => onChange({ ...settings, preset, sideBySide: false });
+
+    return (
+        <div className="viewport-toolbar">
+            {PRESET_BUTTONS.map(({ preset, label, icon }) => (
+                <button 
+                    key={preset}
+                    className={!settings.sideBySide && settings.preset === preset ? 'active' : ''} 
+                    onClick={() => select(preset)} 
+                    title={label}
+                >
+                    {icon}
+                </button>
+            ))}
+            <button 
+                className={!settings.sideBySide && settings.preset === 'custom' ? 'active' : ''} 
+                onClick={() => select('custom')} 
+                title="Custom size"
+            >
+                W×H
+            </button>
+            {!settings.sideBySide && settings.preset === 'custom' && (
+                <div className="viewport-custom">
+                    <SizeInput label="Width" value={settings.customWidth} onCommit={(customWidth) => onChange({ ...settings, customWidth })} />
+                    <span>×</span>
+                    <SizeInput label="Height" value={settings.customHeight} onCommit={(customHeight) => onChange({ ...settings, customHeight })} />
+                </div>
+            )}
+            <span className="viewport-divider" />
+            <button 
+                className={settings.rotated ? 'active' : ''} 
+                onClick={() => onChange({ ...settings, rotated: !settings.rotated })} 
+                disabled={!settings.sideBySide && settings.preset === 'fill'}
+                title="Rotate"
+            >
+                <RotateIcon />
+            </button>
+            <button 
+                className={settings.sideBySide ? 'active' : ''} 
+                onClick={() => onChange({ ...settings, sideBySide: !settings.sideBySide })} 
+                title="Side by side: mobile, tablet and desktop"
+            >
+                <ColumnsIcon />
+            </button>
+        </div>
+    );
+};
+
+export default ViewportToolbar;
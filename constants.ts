@@ -11,4 +11,27 @@ export const INITIAL_PLACEHOLDERS = [
     "Make a brutalist music player",
     "Generate a sleek pricing table",
     "Ask for anything"
-];
\ No newline at end of file
+];
+
+export const MIN_DIRECTIONS = 1;
+export const MAX_DIRECTIONS = 8;
+
+export const FALLBACK_STYLES = [
+    "Modern Minimal",
+    "High-Tech Dark",
+    "Organic Flow",
+    "Soft Brutalism",
+    "Editorial Serif",
+    "Frosted Glass",
+    "Retro Terminal",
+    "Playful Pastel"
+];
+
+export const DEFAULT_GENERATION_SETTINGS = {
+    mode: 'component' as const,
+    directionCount: 3,
+    temperature: 1,
+    model: '',
+    customInstruction: '',
+    autoRepair: false
+};
\ No newline at end of file
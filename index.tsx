@@ -6,18 +6,54 @@
 
 //Vibe coded by ammaar@google.com - Modified by Moslih84
 
-import { GoogleGenAI } from '@google/genai';
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
-import JSZip from 'jszip';
 
-import { Artifact, Session, ComponentVariation, ViewMode, SavedArtifact } from './types.ts';
-import { INITIAL_PLACEHOLDERS } from './constants.ts';
-import { generateId } from './utils.ts';
+import { Artifact, ArtifactRevision, CompareItem, PageSection, PromptTemplate, Session, ComponentVariation, LayoutOption, ValidationWarning, ViewMode, SavedArtifact, GenerationSettings, BrandKit, ReferenceImage } from './types.ts';
+import { INITIAL_PLACEHOLDERS, FALLBACK_STYLES, MAX_DIRECTIONS } from './constants.ts';
+import { generateId, hashString, stripCodeFences, downloadBlob, getGridColumns, errorMessage, readImageFile, imageDataUrl } from './utils.ts';
+import { createProvider, loadProviderConfig, saveProviderConfig, isAbortError, GenerationRequest, ProviderConfig, TokenUsage } from './services/providers/index.ts';
+import { withUsageTracking, addUsage, recordDailyUsage, isOverBudget, formatCost, loadUsageSettings, saveUsageSettings, loadDailyUsage, saveDailyUsage, DailyUsageLog, UsageSettings } from './services/usage.ts';
+import { buildExportZip, buildComponentSetZip, EXPORT_TARGETS, ExportTarget, slugify } from './services/export/index.ts';
+import { buildComponentSetPrompt } from './services/designSystem.ts';
+import { validateArtifact, buildRepairPrompt } from './services/validation.ts';
+import { buildLayoutPrompt, applyLayout, isLayoutOption } from './services/layouts.ts';
+import { exportPromptLibrary, readPromptLibraryFile, mergePromptImport, loadPromptLibrary, savePromptLibrary } from './services/prompts.ts';
+import { createBranchSession, describeBranch, findArtifactSession } from './services/branches.ts';
+import { composePageHtml, createPageSection } from './services/composer.ts';
+import { parseJsonStream } from './services/jsonStream.ts';
+import { auditArtifact, buildAccessibilityInstruction } from './services/accessibility.ts';
+import { sanitizeArtifactHtml, summarizeFindings } from './services/sanitize.ts';
+import { wrapInTemplate } from './services/template.ts';
+import { buildShareLink, readShareFragment, clearShareFragment, isSharingSupported, MAX_LINK_LENGTH, SharedArtifact } from './services/permalink.ts';
+import { Command, KeyBinding, matchesBinding, isEditableTarget } from './services/shortcuts.ts';
+import { resolveViewports, DEFAULT_VIEWPORT_SETTINGS, ViewportSettings } from './services/viewports.ts';
+import { loadBrandKits, saveBrandKits, buildBrandInstruction, BrandKitState } from './services/brandKits.ts';
+import { loadGenerationSettings, saveGenerationSettings } from './services/settings.ts';
+import { loadSessionHistory, saveSessions, deleteSession } from './services/storage/sessions.ts';
+import { loadVault, saveVaultChanges } from './services/storage/vault.ts';
+import { loadPageSections, savePageSections } from './services/storage/page.ts';
+import { describeStorageError, getStorageUsage, isQuotaError, StorageUsage } from './services/storage/db.ts';
+import { EMPTY_VAULT, createCollection, buildVaultExport, exportVaultJson, exportVaultZip, readVaultFile, mergeVaultImport, VaultState } from './services/vault.ts';
 
 import DottedGlowBackground from './components/DottedGlowBackground.tsx';
 import ArtifactCard from './components/ArtifactCard.tsx';
 import SideDrawer from './components/SideDrawer.tsx';
+import ProviderSettings from './components/ProviderSettings.tsx';
+import SessionHistory from './components/SessionHistory.tsx';
+import VaultView from './components/VaultView.tsx';
+import CompareView from './components/CompareView.tsx';
+import ComposerView from './components/ComposerView.tsx';
+import SessionTree from './components/SessionTree.tsx';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel.tsx';
+import BrandKitPanel from './components/BrandKitPanel.tsx';
+import ViewportToolbar from './components/ViewportToolbar.tsx';
+import CodeEditor from './components/CodeEditor.tsx';
+import AccessibilityPanel from './components/AccessibilityPanel.tsx';
+import UsagePanel from './components/UsagePanel.tsx';
+import PromptLibraryPanel from './components/PromptLibraryPanel.tsx';
+import CommandPalette from './components/CommandPalette.tsx';
+import ShortcutHelp from './components/ShortcutHelp.tsx';
 import { 
     ThinkingIcon, 
     CodeIcon, 
@@ -32,9 +68,25 @@ import {
     StackIcon,
     DownloadIcon,
     BookmarkIcon,
-    TrashIcon,
     MaximizeIcon,
-    MinimizeIcon
+    MinimizeIcon,
+    SettingsIcon,
+    HistoryIcon,
+    SlidersIcon,
+    StopIcon,
+    PaletteIcon,
+    ImageIcon,
+    AccessibilityIcon,
+    ShieldIcon,
+    LinkIcon,
+    CompareIcon,
+    LayersIcon,
+    PageIcon,
+    GaugeIcon,
+    LayoutIcon,
+    WarningIcon,
+    BookIcon,
+    BranchIcon
 } from './components/Icons.tsx';
 
 const SYSTEM_INSTRUCTION = `
@@ -46,52 +98,326 @@ CRITICAL RULES:
 4. Ensure backgrounds use 'bg-white dark:bg-zinc-950' or similar to react to theme changes.
 `.trim();
 
+const PALETTE_BINDING: KeyBinding = { key: 'k', mod: true };
+
+const buildSystemInstruction = (customInstruction: string, brandKit: BrandKit | null) => {
+    const layers = [SYSTEM_INSTRUCTION];
+    if (brandKit) layers.push(buildBrandInstruction(brandKit));
+    const extra = customInstruction.trim();
+    if (extra) layers.push(`ADDITIONAL INSTRUCTIONS:\n${extra}`);
+    return layers.join('\n\n');
+};
+
+// The generated html becomes revision 0 the first time an artifact is changed.
+// Changing it from an earlier revision drops the ones after it, like an undo stack.
+const revisionStack = (artifact: Artifact, originalTimestamp: number): ArtifactRevision[] => artifact.revisions?.length
+    ? artifact.revisions.slice(0, (artifact.revisionIndex ?? artifact.revisions.length - 1) + 1)
+    : [{ id: generateId(), instruction: 'Original', html: artifact.html, timestamp: originalTimestamp }];
+
+const warningsFor = (html: string) => {
+    const warnings = validateArtifact(html);
+    return warnings.length ? warnings : undefined;
+};
+
 function App() {
   const [view, setView] = useState<ViewMode>('main');
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [history, setHistory] = useState<Session[]>([]);
   const [currentSessionIndex, setCurrentSessionIndex] = useState<number>(-1);
   const [focusedArtifactIndex, setFocusedArtifactIndex] = useState<number | null>(null);
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
-  const [savedArtifacts, setSavedArtifacts] = useState<SavedArtifact[]>([]);
+  const [vault, setVault] = useState<VaultState>(EMPTY_VAULT);
+  const [vaultNotice, setVaultNotice] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [alertMessage, setAlertMessage] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
+  const [viewportSettings, setViewportSettings] = useState<ViewportSettings>(DEFAULT_VIEWPORT_SETTINGS);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings);
+  const [brandState, setBrandState] = useState<BrandKitState>(loadBrandKits);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [dailyUsage, setDailyUsage] = useState<DailyUsageLog>(loadDailyUsage);
   
   const [inputValue, setInputValue] = useState<string>('');
+  const [refineValue, setRefineValue] = useState<string>('');
+  const [referenceImage, setReferenceImage] = useState<ReferenceImage | null>(null);
+  const [isDraggingImage, setIsDraggingImage] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [placeholderIndex, setPlaceholderIndex] = useState(0);
   const [placeholders, setPlaceholders] = useState<string[]>(INITIAL_PLACEHOLDERS);
   
   const [drawerState, setDrawerState] = useState<{
       isOpen: boolean;
-      mode: 'code' | 'variations' | null;
+      mode: 'code' | 'variations' | 'layouts' | 'settings' | 'generation' | 'brand' | 'export' | 'accessibility' | 'usage' | 'prompts' | null;
       title: string;
       data: any; 
   }>({ isOpen: false, mode: null, title: '', data: null });
 
   const [componentVariations, setComponentVariations] = useState<ComponentVariation[]>([]);
+  const [pendingVariation, setPendingVariation] = useState<ComponentVariation | null>(null);
+  const [layoutOptions, setLayoutOptions] = useState<LayoutOption[]>([]);
+  const [compareSlots, setCompareSlots] = useState<[CompareItem | null, CompareItem | null]>([null, null]);
+  const [pageSections, setPageSections] = useState<PageSection[]>([]);
+  const [overlay, setOverlay] = useState<'palette' | 'shortcuts' | null>(null);
+  const [promptLibrary, setPromptLibrary] = useState<PromptTemplate[]>(loadPromptLibrary);
+  const [promptNotice, setPromptNotice] = useState<string | null>(null);
 
   const inputRef = useRef<HTMLInputElement>(null);
+  const refineInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const gridScrollRef = useRef<HTMLDivElement>(null);
+  // Whole-operation controller (prompt fan-out, variations) plus one per streaming card
+  const operationControllerRef = useRef<AbortController | null>(null);
+  const artifactControllersRef = useRef(new Map<string, AbortController>());
+  const sourceEditTimerRef = useRef<number | undefined>(undefined);
+  // Timeline waiting to be written to IndexedDB, and the timer that will write it
+  const pendingSessionsRef = useRef<Session[] | null>(null);
+  const sessionSaveTimerRef = useRef<number | undefined>(undefined);
+  // What each session looked like when it was last written
+  const persistedSessionsRef = useRef(new Map<string, Session>());
+  // Last vault snapshot known to be in IndexedDB; null until the initial load finishes
+  const persistedVaultRef = useRef<VaultState | null>(null);
+  // Same for the composed page
+  const persistedPageRef = useRef<PageSection[] | null>(null);
+  const handledShareHashRef = useRef('');
+  const auditsRef = useRef(new Map<string, { htmlHash: string; controller: AbortController }>());
+  // Replaced every render so the window listener always sees current state
+  const keyHandlerRef = useRef<(event: KeyboardEvent) => void>(() => {});
+
+  // Charges each call to today, and to the session or artifact named in its usage scope
+  const recordUsage = useCallback((usage: TokenUsage, request: GenerationRequest) => {
+      setDailyUsage(prev => recordDailyUsage(prev, usage));
+      const scope = request.usageScope;
+      if (!scope) return;
+      setSessions(prev => prev.map(sess => {
+          if (sess.id !== scope.sessionId) return sess;
+          if (!scope.artifactId) return { ...sess, usage: addUsage(sess.usage, usage) };
+          return {
+              ...sess,
+              artifacts: sess.artifacts.map(art => art.id === scope.artifactId ? { ...art, usage: addUsage(art.usage, usage) } : art)
+          };
+      }));
+  }, []);
+
+  const provider = useMemo(() => withUsageTracking(createProvider(providerConfig), recordUsage), [providerConfig, recordUsage]);
+
+  // Blocks new generations once today's estimated spend reaches the budget
+  const checkBudget = useCallback(() => {
+      if (!isOverBudget(dailyUsage, usageSettings)) return true;
+      setAlertMessage(`Today's budget of ${formatCost(usageSettings.dailyBudget)} is used up. Raise it under Usage to keep generating.`);
+      return false;
+  }, [dailyUsage, usageSettings]);
+  const viewports = useMemo(() => resolveViewports(viewportSettings), [viewportSettings]);
+  const activeBrandKit = useMemo(
+      () => brandState.kits.find(k => k.id === brandState.activeId) || null,
+      [brandState]
+  );
 
   useEffect(() => {
       inputRef.current?.focus();
   }, [view]);
 
-  // Load saved artifacts from localStorage on mount
+  // Load the vault from IndexedDB on mount (the first open migrates the old localStorage copy)
   useEffect(() => {
-    const saved = localStorage.getItem('genfeatures_vault');
-    if (saved) {
-        try {
-            setSavedArtifacts(JSON.parse(saved));
-        } catch (e) {
-            console.error("Failed to parse vault", e);
-        }
+    loadVault()
+        .then(loaded => {
+            persistedVaultRef.current = loaded;
+            setVault(loaded);
+        })
+        .catch(e => {
+            console.error("Failed to load vault", e);
+            setAlertMessage(`Couldn't open the vault: ${errorMessage(e)}`);
+        });
+  }, []);
+
+  // Persist vault changes. When storage is full the write is rolled back, so the UI
+  // is reset to what is actually stored rather than showing unsaved items as saved.
+  useEffect(() => {
+    const persisted = persistedVaultRef.current;
+    if (!persisted || persisted === vault) return;
+    saveVaultChanges(persisted, vault)
+        .then(() => { persistedVaultRef.current = vault; })
+        .catch(e => {
+            console.error("Failed to persist vault", e);
+            setAlertMessage(describeStorageError(e));
+            if (isQuotaError(e)) setVault(persisted);
+        });
+  }, [vault]);
+
+  // Refresh the usage figures whenever the vault is on screen and changes
+  useEffect(() => {
+    if (view !== 'vault') return;
+    getStorageUsage()
+        .then(setStorageUsage)
+        .catch(e => console.error("Failed to estimate storage usage", e));
+  }, [view, vault]);
+
+  // Load past sessions from IndexedDB on mount
+  useEffect(() => {
+    loadSessionHistory()
+        .then(setHistory)
+        .catch(e => console.error("Failed to load session history", e));
+  }, []);
+
+  // Writes the newest unsaved timeline now, if there is one
+  const flushSessions = useCallback(() => {
+    window.clearTimeout(sessionSaveTimerRef.current);
+    sessionSaveTimerRef.current = undefined;
+    const owned = pendingSessionsRef.current;
+    if (!owned) return;
+    pendingSessionsRef.current = null;
+    // Sessions are replaced immutably in state, so only new objects need writing
+    const persisted = persistedSessionsRef.current;
+    const changed = owned.filter(s => persisted.get(s.id) !== s);
+    if (changed.length === 0) return;
+    saveSessions(changed)
+        .then(() => changed.forEach(s => persisted.set(s.id, s)))
+        .catch(e => {
+            console.error("Failed to persist sessions", e);
+            if (isQuotaError(e)) setAlertMessage(describeStorageError(e));
+        });
+    setHistory(prev => {
+        const byId = new Map<string, Session>(prev.map(s => [s.id, s]));
+        changed.forEach(s => byId.set(s.id, s));
+        return Array.from(byId.values()).sort((a, b) => b.timestamp - a.timestamp);
+    });
+  }, []);
+
+  // Persist the timeline to IndexedDB, throttled so streaming chunks don't hammer the store
+  // but a long generation is still saved as it goes.
+  // Shared sessions are someone else's work and stay out of history.
+  useEffect(() => {
+    const owned = sessions.filter(s => !s.readOnly);
+    if (owned.length === 0) return;
+    pendingSessionsRef.current = owned;
+    if (sessionSaveTimerRef.current === undefined) {
+        sessionSaveTimerRef.current = window.setTimeout(flushSessions, 800);
     }
+  }, [sessions, flushSessions]);
+
+  // Don't lose the last few chunks when the tab is closed or reloaded
+  useEffect(() => {
+    window.addEventListener('pagehide', flushSessions);
+    return () => {
+        window.removeEventListener('pagehide', flushSessions);
+        flushSessions();
+    };
+  }, [flushSessions]);
+
+  const openSharedArtifact = useCallback((shared: SharedArtifact) => {
+    const newSession: Session = {
+        id: generateId(),
+        prompt: shared.prompt,
+        timestamp: Date.now(),
+        readOnly: true,
+        artifacts: [{ id: generateId(), styleName: shared.styleName, html: shared.html, status: 'complete' }]
+    };
+    setSessions(prev => {
+        const next = [...prev, newSession];
+        setCurrentSessionIndex(next.length - 1);
+        return next;
+    });
+    setFocusedArtifactIndex(0);
+    setView('main');
+  }, []);
+
+  // Open share links on load and when one is pasted into the address bar of an open tab
+  useEffect(() => {
+    const openFromHash = () => {
+        // Decoding is async, so a second call can arrive before the fragment is cleared
+        const hash = window.location.hash;
+        if (hash === handledShareHashRef.current) return;
+        handledShareHashRef.current = hash;
+        readShareFragment(hash)
+            .then(shared => {
+                if (!shared) return;
+                clearShareFragment();
+                openSharedArtifact(shared);
+            })
+            .catch(e => {
+                clearShareFragment();
+                setAlertMessage(errorMessage(e));
+            });
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, [openSharedArtifact]);
+
+  // Persist provider selection
+  useEffect(() => {
+    saveProviderConfig(providerConfig);
+  }, [providerConfig]);
+
+  // Persist generation settings
+  useEffect(() => {
+    saveGenerationSettings(generationSettings);
+  }, [generationSettings]);
+
+  // Persist brand kits
+  useEffect(() => {
+    saveBrandKits(brandState);
+  }, [brandState]);
+
+  // Persist usage pricing and the daily log
+  useEffect(() => {
+    saveUsageSettings(usageSettings);
+  }, [usageSettings]);
+
+  useEffect(() => {
+    saveDailyUsage(dailyUsage);
+  }, [dailyUsage]);
+
+  // Load the composed page from IndexedDB on mount (the first open migrates the old localStorage copy)
+  useEffect(() => {
+    loadPageSections()
+        .then(loaded => {
+            persistedPageRef.current = loaded;
+            // Keep anything added to the page while it was loading
+            setPageSections(prev => {
+                if (prev.length === 0) return loaded;
+                const ids = new Set(loaded.map(s => s.id));
+                return [...loaded, ...prev.filter(s => !ids.has(s.id))];
+            });
+        })
+        .catch(e => {
+            console.error("Failed to load page", e);
+            setAlertMessage(`Couldn't open the saved page: ${errorMessage(e)}`);
+            // Still save what gets added from here on
+            persistedPageRef.current = [];
+        });
+  }, []);
+
+  // Persist the composed page, rolling the UI back to what's stored if storage is full
+  useEffect(() => {
+    const persisted = persistedPageRef.current;
+    if (!persisted || persisted === pageSections) return;
+    savePageSections(pageSections)
+        .then(() => { persistedPageRef.current = pageSections; })
+        .catch(e => {
+            console.error("Failed to persist page", e);
+            setAlertMessage(describeStorageError(e));
+            if (isQuotaError(e)) setPageSections(persisted);
+        });
+  }, [pageSections]);
+
+  // Global shortcuts
+  useEffect(() => {
+      const onKeyDown = (event: KeyboardEvent) => keyHandlerRef.current(event);
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
   }, []);
 
-  // Sync saved artifacts to localStorage
+  // Persist the prompt library
   useEffect(() => {
-    localStorage.setItem('genfeatures_vault', JSON.stringify(savedArtifacts));
-  }, [savedArtifacts]);
+    try {
+        savePromptLibrary(promptLibrary);
+    } catch (e) {
+        console.error("Failed to persist prompt library", e);
+        setAlertMessage(describeStorageError(e));
+    }
+  }, [promptLibrary]);
 
   // Update document title and body data-theme
   useEffect(() => {
@@ -120,18 +446,11 @@ function App() {
   // Dynamic placeholder generation on load
   useEffect(() => {
       const fetchDynamicPlaceholders = async () => {
+          if (isOverBudget(dailyUsage, usageSettings)) return;
           try {
-              const apiKey = process.env.API_KEY;
-              if (!apiKey) return;
-              const ai = new GoogleGenAI({ apiKey });
-              const response = await ai.models.generateContent({
-                  model: 'gemini-3-flash-preview',
-                  contents: { 
-                      role: 'user', 
-                      parts: [{ 
-                          text: 'Generate 20 creative, short, diverse UI component prompts (e.g. "bioluminescent task list"). Return ONLY a raw JSON array of strings. IP SAFEGUARD: Avoid referencing specific famous artists, movies, or brands.' 
-                      }] 
-                  }
+              const response = await provider.generate({
+                  task: 'placeholders',
+                  prompt: 'Generate 20 creative, short, diverse UI component prompts (e.g. "bioluminescent task list"). Return ONLY a raw JSON array of strings. IP SAFEGUARD: Avoid referencing specific famous artists, movies, or brands.'
               });
               const text = response.text || '[]';
               const jsonMatch = text.match(/\[[\s\S]*\]/);
@@ -149,59 +468,209 @@ function App() {
       setTimeout(fetchDynamicPlaceholders, 1000);
   }, []);
 
-  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setInputValue(event.target.value);
-  };
+  const updateArtifact = useCallback((sessionId: string, artifactId: string, updater: (art: Artifact) => Artifact) => {
+      setSessions(prev => prev.map(sess => 
+          sess.id === sessionId ? {
+              ...sess,
+              artifacts: sess.artifacts.map(art => art.id === artifactId ? updater(art) : art)
+          } : sess
+      ));
+  }, []);
 
-  const parseJsonStream = async function* (responseStream: AsyncGenerator<{ text: string }>) {
-      let buffer = '';
+  // Audit completed artifacts in the current session whenever their html or the brand kit changes.
+  // A newer edit aborts the audit still queued for the same artifact.
+  useEffect(() => {
+      const session = sessions[currentSessionIndex];
+      if (!session) return;
+      const brandKey = JSON.stringify(activeBrandKit);
+      session.artifacts.forEach(artifact => {
+          if (artifact.status !== 'complete' || !artifact.html) return;
+          const htmlHash = hashString(artifact.html + brandKey);
+          if (artifact.audit?.htmlHash === htmlHash || auditsRef.current.get(artifact.id)?.htmlHash === htmlHash) return;
+
+          auditsRef.current.get(artifact.id)?.controller.abort();
+          const controller = new AbortController();
+          auditsRef.current.set(artifact.id, { htmlHash, controller });
+          auditArtifact(artifact.html, activeBrandKit, controller.signal)
+              .then(issues => {
+                  if (auditsRef.current.get(artifact.id)?.controller !== controller) return;
+                  updateArtifact(session.id, artifact.id, art => ({ ...art, audit: { htmlHash, issues, auditedAt: Date.now() } }));
+              })
+              .catch(e => {
+                  if (!isAbortError(e)) console.error("Accessibility audit failed", e);
+              })
+              .finally(() => {
+                  if (auditsRef.current.get(artifact.id)?.controller === controller) auditsRef.current.delete(artifact.id);
+              });
+      });
+  }, [sessions, currentSessionIndex, activeBrandKit, updateArtifact]);
+
+  // One continue/repair pass over output that failed validation, streamed into the card.
+  // Resolves with the repaired html, or the original when the model returned nothing.
+  const streamRepair = useCallback(async (session: Session, artifactId: string, html: string, warnings: ValidationWarning[], signal: AbortSignal) => {
+      const settings = session.settings || generationSettings;
+      const { prompt, append } = buildRepairPrompt(html, warnings);
+      const base = append ? html : '';
+      updateArtifact(session.id, artifactId, art => ({ ...art, html: base, status: 'streaming' }));
+
+      const responseStream = provider.stream({
+          task: 'repair',
+          prompt,
+          model: settings.model || undefined,
+          temperature: settings.temperature,
+          systemInstruction: buildSystemInstruction(settings.customInstruction, activeBrandKit),
+          signal,
+          usageScope: { sessionId: session.id, artifactId }
+      });
+      let accumulatedHtml = '';
       for await (const chunk of responseStream) {
-          const text = chunk.text;
-          if (typeof text !== 'string') continue;
-          buffer += text;
-          let braceCount = 0;
-          let start = buffer.indexOf('{');
-          while (start !== -1) {
-              braceCount = 0;
-              let end = -1;
-              for (let i = start; i < buffer.length; i++) {
-                  if (buffer[i] === '{') braceCount++;
-                  else if (buffer[i] === '}') braceCount--;
-                  if (braceCount === 0 && i > start) {
-                      end = i;
-                      break;
-                  }
-              }
-              if (end !== -1) {
-                  const jsonString = buffer.substring(start, end + 1);
-                  try {
-                      yield JSON.parse(jsonString);
-                      buffer = buffer.substring(end + 1);
-                      start = buffer.indexOf('{');
-                  } catch (e) {
-                      start = buffer.indexOf('{', start + 1);
-                  }
-              } else {
-                  break; 
+          accumulatedHtml += chunk.text;
+          updateArtifact(session.id, artifactId, art => ({ ...art, html: base + accumulatedHtml }));
+      }
+
+      // A continuation keeps its leading whitespace; it may finish a word or an attribute
+      const repaired = append && !accumulatedHtml.trimStart().startsWith('```')
+          ? accumulatedHtml.trimEnd()
+          : stripCodeFences(accumulatedHtml);
+      return repaired ? base + repaired : html;
+  }, [provider, generationSettings, activeBrandKit, updateArtifact]);
+
+  // Streams one direction into its card. Used for the initial fan-out and for retries.
+  const streamArtifact = useCallback(async (session: Session, artifactId: string, styleName: string) => {
+      const settings = session.settings || generationSettings;
+      const controller = new AbortController();
+      artifactControllersRef.current.get(artifactId)?.abort();
+      artifactControllersRef.current.set(artifactId, controller);
+
+      updateArtifact(session.id, artifactId, art => ({
+          ...art,
+          styleName,
+          html: '',
+          status: 'streaming',
+          error: undefined,
+          revisions: undefined,
+          revisionIndex: undefined,
+          generatedHtml: undefined,
+          warnings: undefined
+      }));
+
+      try {
+          const referenceNote = session.referenceImage
+              ? ' Use the attached image as the design reference: recreate its layout and content, reinterpreted in this direction.'
+              : '';
+          const prompt = settings.mode === 'system'
+              ? buildComponentSetPrompt(session.prompt, styleName, referenceNote)
+              : `Create a high-fidelity HTML/CSS component for: "${session.prompt}". Direction: ${styleName}.${referenceNote} IMPORTANT: Support both light and dark mode using Tailwind classes. NO MARKDOWN FENCES.`;
+
+          const responseStream = provider.stream({
+              task: 'artifact',
+              prompt,
+              images: session.referenceImage ? [session.referenceImage] : undefined,
+              model: settings.model || undefined,
+              temperature: settings.temperature,
+              systemInstruction: buildSystemInstruction(settings.customInstruction, activeBrandKit),
+              signal: controller.signal,
+              usageScope: { sessionId: session.id, artifactId }
+          });
+
+          let accumulatedHtml = '';
+          for await (const chunk of responseStream) {
+              accumulatedHtml += chunk.text;
+              updateArtifact(session.id, artifactId, art => ({ ...art, html: accumulatedHtml }));
+          }
+
+          let finalHtml = stripCodeFences(accumulatedHtml);
+          const warnings = finalHtml ? validateArtifact(finalHtml) : [];
+          if (warnings.length && settings.autoRepair && checkBudget()) {
+              try {
+                  finalHtml = await streamRepair(session, artifactId, finalHtml, warnings, controller.signal);
+              } catch (e) {
+                  // Cancelling the repair keeps what was generated before it
+                  if (!isAbortError(e)) console.error('Error repairing artifact:', e);
               }
           }
+          updateArtifact(session.id, artifactId, art => ({
+              ...art,
+              html: finalHtml,
+              status: finalHtml ? 'complete' : 'error',
+              error: finalHtml ? undefined : 'The model returned an empty response.',
+              warnings: finalHtml ? warningsFor(finalHtml) : undefined
+          }));
+      } catch (e) {
+          if (!isAbortError(e)) console.error('Error generating artifact:', e);
+          updateArtifact(session.id, artifactId, art => ({
+              ...art,
+              status: 'error',
+              error: isAbortError(e) ? 'Cancelled' : errorMessage(e)
+          }));
+      } finally {
+          if (artifactControllersRef.current.get(artifactId) === controller) {
+              artifactControllersRef.current.delete(artifactId);
+          }
+      }
+  }, [provider, generationSettings, activeBrandKit, updateArtifact, streamRepair, checkBudget]);
+
+  const handleCancelGeneration = () => {
+      operationControllerRef.current?.abort();
+      artifactControllersRef.current.forEach(controller => controller.abort());
+  };
+
+  const handleCancelArtifact = (artifactId: string) => {
+      artifactControllersRef.current.get(artifactId)?.abort();
+  };
+
+  const handleRetryArtifact = (session: Session, artifact: Artifact) => {
+      if (session.readOnly || !checkBudget()) return;
+      streamArtifact(session, artifact.id, artifact.styleName);
+  };
+
+  const handleAttachImage = async (file: File | undefined) => {
+      if (!file) return;
+      try {
+          setReferenceImage(await readImageFile(file));
+      } catch (e) {
+          console.warn("Could not attach reference image", e);
+          setAlertMessage(errorMessage(e));
+      }
+  };
+
+  const handlePaste = (event: React.ClipboardEvent) => {
+      const image = Array.from<File>(event.clipboardData.files).find(f => f.type.startsWith('image/'));
+      if (image) {
+          event.preventDefault();
+          handleAttachImage(image);
       }
   };
 
+  const handleDragOver = (event: React.DragEvent) => {
+      if (isLoading || !Array.from(event.dataTransfer.types).includes('Files')) return;
+      event.preventDefault();
+      setIsDraggingImage(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+      event.preventDefault();
+      setIsDraggingImage(false);
+      if (isLoading) return;
+      handleAttachImage(Array.from<File>(event.dataTransfer.files).find(f => f.type.startsWith('image/')));
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setInputValue(event.target.value);
+  };
+
   const handleGenerateVariations = useCallback(async () => {
     const currentSession = sessions[currentSessionIndex];
-    if (!currentSession || focusedArtifactIndex === null) return;
+    if (!currentSession || currentSession.readOnly || focusedArtifactIndex === null || !checkBudget()) return;
     const currentArtifact = currentSession.artifacts[focusedArtifactIndex];
 
     setIsLoading(true);
     setComponentVariations([]);
     setDrawerState({ isOpen: true, mode: 'variations', title: 'Variations', data: currentArtifact.id });
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
 
     try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API_KEY is not configured.");
-        const ai = new GoogleGenAI({ apiKey });
-
         const prompt = `
 Generate 3 RADICAL CONCEPTUAL VARIATIONS of: "${currentSession.prompt}".
 Ensure all variations are fully adaptive to both Light and Dark modes using Tailwind classes.
@@ -209,62 +678,317 @@ Required JSON Output Format (stream ONE object per line):
 \`{ "name": "Persona Name", "html": "..." }\`
         `.trim();
 
-        const responseStream = await ai.models.generateContentStream({
-            model: 'gemini-3-flash-preview',
-             contents: [{ parts: [{ text: prompt }], role: 'user' }],
-             config: { temperature: 1.2, systemInstruction: SYSTEM_INSTRUCTION }
+        const responseStream = provider.stream({
+            task: 'variations',
+            prompt,
+            model: generationSettings.model || undefined,
+            temperature: 1.2,
+            systemInstruction: buildSystemInstruction(generationSettings.customInstruction, activeBrandKit),
+            signal: controller.signal,
+            usageScope: { sessionId: currentSession.id, artifactId: currentArtifact.id }
         });
 
-        for await (const variation of parseJsonStream(responseStream)) {
-            if (variation.name && variation.html) {
-                setComponentVariations(prev => [...prev, variation]);
+        for await (const event of parseJsonStream<ComponentVariation>(responseStream)) {
+            if (event.type === 'partial') {
+                // Render the variation in progress as soon as its html starts arriving
+                const { name, html } = event.value;
+                setPendingVariation(html ? { name: name || 'Designing...', html } : null);
+            } else if (event.value.name && event.value.html) {
+                setPendingVariation(null);
+                setComponentVariations(prev => [...prev, event.value]);
             }
         }
     } catch (e: any) {
-        console.error("Error generating variations:", e);
+        if (!isAbortError(e)) console.error("Error generating variations:", e);
     } finally {
+        if (operationControllerRef.current === controller) operationControllerRef.current = null;
+        setPendingVariation(null);
         setIsLoading(false);
     }
-  }, [sessions, currentSessionIndex, focusedArtifactIndex]);
+  }, [sessions, currentSessionIndex, focusedArtifactIndex, provider, generationSettings, activeBrandKit, checkBudget]);
 
-  const applyVariation = (html: string) => {
-      if (focusedArtifactIndex === null) return;
-      setSessions(prev => prev.map((sess, i) => 
-          i === currentSessionIndex ? {
-              ...sess,
-              artifacts: sess.artifacts.map((art, j) => 
-                j === focusedArtifactIndex ? { ...art, html, status: 'complete' } : art
-              )
-          } : sess
-      ));
+  // Like layouts, a chosen variation is a revision, so the stepper can go back to the html it replaced
+  const applyVariation = (variation: ComponentVariation) => {
+      const currentSession = sessions[currentSessionIndex];
+      if (!currentSession || currentSession.readOnly || focusedArtifactIndex === null) return;
+      const artifact = currentSession.artifacts[focusedArtifactIndex];
+      const { html } = variation;
+      const revisions = [...revisionStack(artifact, currentSession.timestamp), { id: generateId(), instruction: `Variation: ${variation.name}`, html, timestamp: Date.now() }];
+      updateArtifact(currentSession.id, artifact.id, art => ({
+          ...art,
+          html,
+          status: 'complete',
+          generatedHtml: undefined,
+          revisions,
+          revisionIndex: revisions.length - 1,
+          warnings: warningsFor(html)
+      }));
+      setDrawerState(s => ({ ...s, isOpen: false }));
+  };
+
+  const handleGenerateLayouts = useCallback(async () => {
+    const currentSession = sessions[currentSessionIndex];
+    if (!currentSession || currentSession.readOnly || focusedArtifactIndex === null || !checkBudget()) return;
+    const currentArtifact = currentSession.artifacts[focusedArtifactIndex];
+
+    setIsLoading(true);
+    setLayoutOptions([]);
+    setDrawerState({ isOpen: true, mode: 'layouts', title: 'Layouts', data: currentArtifact.id });
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+
+    try {
+        const responseStream = provider.stream({
+            task: 'layouts',
+            prompt: buildLayoutPrompt(currentSession.prompt, currentArtifact.html),
+            model: generationSettings.model || undefined,
+            temperature: generationSettings.temperature,
+            systemInstruction: buildSystemInstruction(generationSettings.customInstruction, activeBrandKit),
+            signal: controller.signal,
+            usageScope: { sessionId: currentSession.id, artifactId: currentArtifact.id }
+        });
+
+        for await (const event of parseJsonStream<LayoutOption>(responseStream)) {
+            // Layouts without a slot for the component can't be applied, so they're dropped
+            if (event.type === 'object' && isLayoutOption(event.value)) {
+                const option = event.value;
+                setLayoutOptions(prev => [...prev, option]);
+            }
+        }
+    } catch (e) {
+        if (!isAbortError(e)) console.error("Error generating layouts:", e);
+    } finally {
+        if (operationControllerRef.current === controller) operationControllerRef.current = null;
+        setIsLoading(false);
+    }
+  }, [sessions, currentSessionIndex, focusedArtifactIndex, provider, generationSettings, activeBrandKit, checkBudget]);
+
+  // Applied layouts are revisions, so the stepper can take the artifact back out of one
+  const applyLayoutOption = (option: LayoutOption) => {
+      const currentSession = sessions[currentSessionIndex];
+      if (!currentSession || currentSession.readOnly || focusedArtifactIndex === null) return;
+      const artifact = currentSession.artifacts[focusedArtifactIndex];
+      const html = applyLayout(option, artifact.html);
+      const revisions = [...revisionStack(artifact, currentSession.timestamp), { id: generateId(), instruction: `Layout: ${option.name}`, html, timestamp: Date.now() }];
+      updateArtifact(currentSession.id, artifact.id, art => ({
+          ...art,
+          html,
+          status: 'complete',
+          generatedHtml: undefined,
+          revisions,
+          revisionIndex: revisions.length - 1,
+          warnings: warningsFor(html)
+      }));
+      setDrawerState(s => ({ ...s, isOpen: false }));
+  };
+
+  // Rewrites one artifact from an instruction and records the result as a new revision.
+  // `label` is what the revision stepper shows and defaults to the instruction itself.
+  const refineArtifact = useCallback(async (currentSession: Session, artifact: Artifact, instruction: string, label = instruction) => {
+    if (isLoading || currentSession.readOnly || !checkBudget()) return;
+    const baseHtml = artifact.html;
+    const revisions = revisionStack(artifact, currentSession.timestamp);
+
+    setIsLoading(true);
+    const controller = new AbortController();
+    artifactControllersRef.current.set(artifact.id, controller);
+    updateArtifact(currentSession.id, artifact.id, art => ({ ...art, html: '', status: 'streaming' }));
+
+    try {
+        const prompt = `
+Here is an existing UI component:
+
+${baseHtml}
+
+Revise it according to this instruction: "${instruction}".
+Keep everything the instruction does not mention intact, including light and dark mode support.
+Return the COMPLETE updated component. NO MARKDOWN FENCES.
+        `.trim();
+
+        let accumulatedHtml = '';
+        const responseStream = provider.stream({
+            task: 'refine',
+            prompt,
+            model: generationSettings.model || undefined,
+            temperature: generationSettings.temperature,
+            systemInstruction: buildSystemInstruction(generationSettings.customInstruction, activeBrandKit),
+            signal: controller.signal,
+            usageScope: { sessionId: currentSession.id, artifactId: artifact.id }
+        });
+        for await (const chunk of responseStream) {
+            accumulatedHtml += chunk.text;
+            updateArtifact(currentSession.id, artifact.id, art => ({ ...art, html: accumulatedHtml }));
+        }
+
+        const finalHtml = stripCodeFences(accumulatedHtml);
+        if (!finalHtml) throw new Error("Model returned an empty revision.");
+
+        const nextRevisions = [...revisions, { id: generateId(), instruction: label, html: finalHtml, timestamp: Date.now() }];
+        updateArtifact(currentSession.id, artifact.id, art => ({
+            ...art,
+            html: finalHtml,
+            status: 'complete',
+            generatedHtml: undefined,
+            revisions: nextRevisions,
+            revisionIndex: nextRevisions.length - 1,
+            warnings: warningsFor(finalHtml)
+        }));
+    } catch (e) {
+        // A failed or cancelled refinement leaves the current revision untouched
+        if (!isAbortError(e)) {
+            console.error("Error refining artifact:", e);
+            setAlertMessage(`Refinement failed: ${errorMessage(e)}`);
+        }
+        updateArtifact(currentSession.id, artifact.id, art => ({ ...art, html: baseHtml, status: 'complete' }));
+    } finally {
+        if (artifactControllersRef.current.get(artifact.id) === controller) {
+            artifactControllersRef.current.delete(artifact.id);
+        }
+        setIsLoading(false);
+    }
+  }, [isLoading, provider, generationSettings, activeBrandKit, updateArtifact, checkBudget]);
+
+  const handleRefineArtifact = () => {
+      const instruction = refineValue.trim();
+      const currentSession = sessions[currentSessionIndex];
+      if (!instruction || isLoading || !currentSession || focusedArtifactIndex === null) return;
+      setRefineValue('');
+      refineArtifact(currentSession, currentSession.artifacts[focusedArtifactIndex], instruction);
+  };
+
+  const handleRepairArtifact = async () => {
+      const currentSession = sessions[currentSessionIndex];
+      if (isLoading || !currentSession || currentSession.readOnly || focusedArtifactIndex === null || !checkBudget()) return;
+      const artifact = currentSession.artifacts[focusedArtifactIndex];
+      if (!artifact.warnings?.length) return;
+      const revisions = revisionStack(artifact, currentSession.timestamp);
+
+      setIsLoading(true);
+      const controller = new AbortController();
+      artifactControllersRef.current.set(artifact.id, controller);
+      try {
+          const html = await streamRepair(currentSession, artifact.id, artifact.html, artifact.warnings, controller.signal);
+          const nextRevisions = [...revisions, { id: generateId(), instruction: 'Repair', html, timestamp: Date.now() }];
+          updateArtifact(currentSession.id, artifact.id, art => ({
+              ...art,
+              html,
+              status: 'complete',
+              generatedHtml: undefined,
+              revisions: nextRevisions,
+              revisionIndex: nextRevisions.length - 1,
+              warnings: warningsFor(html)
+          }));
+      } catch (e) {
+          if (!isAbortError(e)) {
+              console.error("Error repairing artifact:", e);
+              setAlertMessage(`Repair failed: ${errorMessage(e)}`);
+          }
+          updateArtifact(currentSession.id, artifact.id, art => ({ ...art, html: artifact.html, status: 'complete' }));
+      } finally {
+          if (artifactControllersRef.current.get(artifact.id) === controller) {
+              artifactControllersRef.current.delete(artifact.id);
+          }
+          setIsLoading(false);
+      }
+  };
+
+  const handleToggleScripts = () => {
+      const currentSession = sessions[currentSessionIndex];
+      if (!currentSession || focusedArtifactIndex === null) return;
+      const artifact = currentSession.artifacts[focusedArtifactIndex];
+      updateArtifact(currentSession.id, artifact.id, art => ({ ...art, scriptsAllowed: !art.scriptsAllowed }));
+  };
+
+  const handleShowAudit = (artifactId: string) => {
+      setDrawerState({ isOpen: true, mode: 'accessibility', title: 'Accessibility', data: artifactId });
+  };
+
+  const handleFixAccessibility = (artifactId: string) => {
+      const currentSession = sessions[currentSessionIndex];
+      const artifact = currentSession?.artifacts.find(a => a.id === artifactId);
+      if (!artifact?.audit?.issues.length) return;
       setDrawerState(s => ({ ...s, isOpen: false }));
+      refineArtifact(currentSession, artifact, buildAccessibilityInstruction(artifact.audit.issues), 'Fix accessibility issues');
+  };
+
+  const handleStepRevision = (delta: number) => {
+      const currentSession = sessions[currentSessionIndex];
+      if (!currentSession || focusedArtifactIndex === null) return;
+      const artifact = currentSession.artifacts[focusedArtifactIndex];
+      if (!artifact.revisions) return;
+      const target = (artifact.revisionIndex ?? artifact.revisions.length - 1) + delta;
+      if (target < 0 || target >= artifact.revisions.length) return;
+      // Drop a pending source edit, or it would land on the revision being stepped to
+      window.clearTimeout(sourceEditTimerRef.current);
+      updateArtifact(currentSession.id, artifact.id, art => ({ ...art, html: art.revisions![target].html, revisionIndex: target, generatedHtml: undefined, warnings: warningsFor(art.revisions![target].html) }));
   };
 
   const handleShowCode = () => {
       const currentSession = sessions[currentSessionIndex];
       if (currentSession && focusedArtifactIndex !== null) {
-          const artifact = currentSession.artifacts[focusedArtifactIndex];
-          setDrawerState({ isOpen: true, mode: 'code', title: 'Source Code', data: artifact.html });
+          setDrawerState({ isOpen: true, mode: 'code', title: 'Source Code', data: null });
       }
   };
 
-  const handleDownloadZip = async () => {
+  // Source edits are debounced so the preview iframe doesn't reload on every keystroke.
+  // The first edit remembers the model's html so it can be restored later.
+  const handleSourceEdit = (html: string) => {
+      const currentSession = sessions[currentSessionIndex];
+      if (!currentSession || currentSession.readOnly || focusedArtifactIndex === null) return;
+      const sessionId = currentSession.id;
+      const artifactId = currentSession.artifacts[focusedArtifactIndex].id;
+
+      window.clearTimeout(sourceEditTimerRef.current);
+      sourceEditTimerRef.current = window.setTimeout(() => {
+          updateArtifact(sessionId, artifactId, art => {
+              const generatedHtml = art.generatedHtml ?? art.html;
+              return { ...art, html, generatedHtml: html === generatedHtml ? undefined : generatedHtml, warnings: warningsFor(html) };
+          });
+      }, 300);
+  };
+
+  const handleShowExport = () => {
+      if (focusedArtifactIndex === null) return;
+      setDrawerState({ isOpen: true, mode: 'export', title: 'Export', data: null });
+  };
+
+  const handleDownloadZip = async (target: ExportTarget) => {
     const currentSession = sessions[currentSessionIndex];
     if (!currentSession || focusedArtifactIndex === null) return;
     const artifact = currentSession.artifacts[focusedArtifactIndex];
-    
-    const zip = new JSZip();
-    zip.file("index.html", artifact.html);
-    
-    const content = await zip.generateAsync({ type: "blob" });
-    const url = URL.createObjectURL(content);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `genfeatures-${artifact.id}.zip`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+
+    const isComponentSet = currentSession.settings?.mode === 'system';
+    try {
+        const source = { ...artifact, prompt: currentSession.prompt };
+        const content = isComponentSet
+            ? await buildComponentSetZip(source, target, theme, activeBrandKit)
+            : await buildExportZip(source, target, theme, activeBrandKit);
+        downloadBlob(content, `genfeatures-${artifact.id}-${isComponentSet ? 'set-' : ''}${target}.zip`);
+        setDrawerState(s => ({ ...s, isOpen: false }));
+    } catch (e) {
+        console.error("Failed to build export", e);
+        setAlertMessage(`Export failed: ${errorMessage(e)}`);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const currentSession = sessions[currentSessionIndex];
+    if (!currentSession || focusedArtifactIndex === null) return;
+    const artifact = currentSession.artifacts[focusedArtifactIndex];
+
+    try {
+        if (!isSharingSupported()) throw new Error("this browser can't compress share links.");
+        const link = await buildShareLink({ styleName: artifact.styleName, prompt: currentSession.prompt, html: artifact.html });
+        if (link.length > MAX_LINK_LENGTH) {
+            throw new Error("this component is too large for a link. Use Download ZIP instead.");
+        }
+        await navigator.clipboard.writeText(link);
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+        console.error("Failed to copy share link", e);
+        setAlertMessage(`Couldn't copy link: ${errorMessage(e)}`);
+    }
   };
 
   const handleSaveArtifact = () => {
@@ -272,7 +996,7 @@ Required JSON Output Format (stream ONE object per line):
     if (!currentSession || focusedArtifactIndex === null) return;
     const artifact = currentSession.artifacts[focusedArtifactIndex];
 
-    if (savedArtifacts.some(s => s.id === artifact.id)) return;
+    if (vault.artifacts.some(s => s.id === artifact.id)) return;
 
     const toSave: SavedArtifact = {
         ...artifact,
@@ -280,31 +1004,177 @@ Required JSON Output Format (stream ONE object per line):
         savedAt: Date.now()
     };
 
-    setSavedArtifacts(prev => [toSave, ...prev]);
+    setVault(prev => ({ ...prev, artifacts: [toSave, ...prev.artifacts] }));
   };
 
   const handleRemoveFromVault = (id: string) => {
-    setSavedArtifacts(prev => prev.filter(s => s.id !== id));
+    setVault(prev => ({ ...prev, artifacts: prev.artifacts.filter(s => s.id !== id) }));
   };
 
-  const handleRestoreFromVault = (saved: SavedArtifact) => {
-    const sessionId = generateId();
-    const newSession: Session = {
-        id: sessionId,
-        prompt: saved.prompt,
-        timestamp: Date.now(),
-        artifacts: [{ ...saved, id: generateId() }]
-    };
+  const handleUpdateSaved = (id: string, patch: Partial<SavedArtifact>) => {
+    setVault(prev => ({ ...prev, artifacts: prev.artifacts.map(s => s.id === id ? { ...s, ...patch } : s) }));
+  };
+
+  const handleCreateCollection = (name: string) => {
+    setVault(prev => ({ ...prev, collections: [...prev.collections, createCollection(name)] }));
+  };
+
+  // Deleting a collection only unfiles its artifacts; they stay in the vault
+  const handleDeleteCollection = (id: string) => {
+    setVault(prev => ({
+        collections: prev.collections.filter(c => c.id !== id),
+        artifacts: prev.artifacts.map(s => s.collectionIds?.includes(id)
+            ? { ...s, collectionIds: s.collectionIds.filter(c => c !== id) }
+            : s)
+    }));
+  };
+
+  const handleExportVault = async (format: 'json' | 'zip', collectionId: string | null) => {
+    const data = buildVaultExport(vault, collectionId);
+    const name = collectionId ? slugify(vault.collections.find(c => c.id === collectionId)?.name || 'collection') : 'vault';
+    try {
+        const blob = format === 'json' ? exportVaultJson(data) : await exportVaultZip(data, theme, activeBrandKit);
+        downloadBlob(blob, `genfeatures-${name}.${format}`);
+        setVaultNotice(`Exported ${data.artifacts.length} component${data.artifacts.length === 1 ? '' : 's'}.`);
+    } catch (e) {
+        console.error("Failed to export vault", e);
+        setVaultNotice(`Export failed: ${errorMessage(e)}`);
+    }
+  };
+
+  const handleImportVault = async (file: File) => {
+    try {
+        const { state, added, skipped } = mergeVaultImport(vault, await readVaultFile(file));
+        setVault(state);
+        setVaultNotice(`Imported ${added} component${added === 1 ? '' : 's'}${skipped ? `, skipped ${skipped} already in the vault` : ''}.`);
+    } catch (e) {
+        setVaultNotice(`Import failed: ${errorMessage(e)}`);
+    }
+  };
+
+  // Branches join the end of the timeline like any new session
+  const openBranch = (session: Session, focusIndex: number | null) => {
     setSessions(prev => {
-        const next = [...prev, newSession];
+        const next = [...prev, session];
         setCurrentSessionIndex(next.length - 1);
         return next;
     });
-    setFocusedArtifactIndex(0);
+    setFocusedArtifactIndex(focusIndex);
+    setView('main');
+  };
+
+  const handleRestoreFromVault = (saved: SavedArtifact) => {
+    const source = findArtifactSession(composerSessions, saved.id);
+    // Vault-only fields stay in the vault
+    const { prompt, savedAt, collectionIds, tags, notes, ...artifact } = saved;
+    openBranch(createBranchSession(
+        { prompt, settings: source?.settings },
+        { kind: 'restore', sessionId: source?.id, artifactId: saved.id, styleName: saved.styleName },
+        [artifact]
+    ), 0);
+  };
+
+  const handleBranchVariations = () => {
+    const currentSession = sessions[currentSessionIndex];
+    const artifact = currentSession?.artifacts.find(a => a.id === drawerState.data);
+    if (!currentSession || currentSession.readOnly || !artifact || componentVariations.length === 0) return;
+    openBranch(createBranchSession(
+        currentSession,
+        { kind: 'variation', sessionId: currentSession.id, artifactId: artifact.id, styleName: artifact.styleName },
+        componentVariations.map(v => ({ id: '', styleName: v.name, html: v.html, status: 'complete', warnings: warningsFor(v.html) }))
+    ), null);
+    setDrawerState(s => ({ ...s, isOpen: false }));
+  };
+
+  // Refines a copy in a new session, leaving the original direction as it was
+  const handleRefineInBranch = () => {
+    const instruction = refineValue.trim();
+    const currentSession = sessions[currentSessionIndex];
+    if (!instruction || isLoading || !currentSession || currentSession.readOnly || focusedArtifactIndex === null || !checkBudget()) return;
+    const artifact = currentSession.artifacts[focusedArtifactIndex];
+    const branch = createBranchSession(
+        currentSession,
+        { kind: 'refinement', sessionId: currentSession.id, artifactId: artifact.id, styleName: artifact.styleName },
+        [{ ...artifact, revisions: undefined, revisionIndex: undefined, generatedHtml: undefined }]
+    );
+    setRefineValue('');
+    openBranch(branch, 0);
+    refineArtifact(branch, branch.artifacts[0], instruction);
+  };
+
+  const handleOpenBranchNode = (session: Session, artifactIndex: number | null) => {
+    handleOpenFromHistory(session);
+    setFocusedArtifactIndex(artifactIndex);
+  };
+
+  const handleOpenParent = () => {
+    const parent = sessions[currentSessionIndex]?.parent;
+    const source = parent?.sessionId ? composerSessions.find(s => s.id === parent.sessionId) : undefined;
+    if (!parent || !source) return;
+    const index = source.artifacts.findIndex(a => a.id === parent.artifactId);
+    handleOpenBranchNode(source, index === -1 ? null : index);
+  };
+
+  // Pins into the first empty slot, or replaces B once both are taken, and opens
+  // compare mode as soon as there are two things to compare
+  const handlePinForCompare = (artifact: Artifact, source: string) => {
+    const item: CompareItem = { artifact, source };
+    const next: [CompareItem | null, CompareItem | null] = compareSlots[0] ? [compareSlots[0], item] : [item, compareSlots[1]];
+    setCompareSlots(next);
+    if (next[0] && next[1]) {
+        setDrawerState(s => ({ ...s, isOpen: false }));
+        setView('compare');
+    }
+  };
+
+  const handleAddToPage = () => {
+    const currentSession = sessions[currentSessionIndex];
+    if (!currentSession || focusedArtifactIndex === null) return;
+    const artifact = currentSession.artifacts[focusedArtifactIndex];
+    setPageSections(prev => [...prev, createPageSection(artifact.styleName, artifact.html, currentSession.prompt)]);
+  };
+
+  const handleExportPage = () => {
+    const page = wrapInTemplate(composePageHtml(pageSections), theme, activeBrandKit);
+    downloadBlob(new Blob([page], { type: 'text/html' }), 'genfeatures-page.html');
+  };
+
+  const handleUnpinCompare = (index: number) => {
+    setCompareSlots(prev => index === 0 ? [null, prev[1]] : [prev[0], null]);
+  };
+
+  const handleOpenFromHistory = (session: Session) => {
+    const existingIndex = sessions.findIndex(s => s.id === session.id);
+    if (existingIndex !== -1) {
+        setCurrentSessionIndex(existingIndex);
+    } else {
+        setSessions(prev => {
+            const next = [...prev, session];
+            setCurrentSessionIndex(next.length - 1);
+            return next;
+        });
+    }
+    setFocusedArtifactIndex(null);
     setView('main');
   };
 
+  const handleDeleteFromHistory = (id: string) => {
+    deleteSession(id).catch(e => console.error("Failed to delete session", e));
+    persistedSessionsRef.current.delete(id);
+    setHistory(prev => prev.filter(s => s.id !== id));
+    const index = sessions.findIndex(s => s.id === id);
+    if (index === -1) return;
+    const remaining = sessions.filter(s => s.id !== id);
+    setSessions(remaining);
+    if (index <= currentSessionIndex) {
+        setCurrentSessionIndex(Math.max(remaining.length > 0 ? 0 : -1, currentSessionIndex - 1));
+        setFocusedArtifactIndex(null);
+    }
+  };
+
   const handleGoHome = () => {
+    // The timeline is about to be cleared, so save what's still pending first
+    flushSessions();
     setView('main');
     setSessions([]);
     setCurrentSessionIndex(-1);
@@ -315,17 +1185,24 @@ Required JSON Output Format (stream ONE object per line):
 
   const handleSendMessage = useCallback(async (manualPrompt?: string) => {
     const promptToUse = manualPrompt || inputValue;
-    const trimmedInput = promptToUse.trim();
+    const image = referenceImage;
+    // A reference image on its own is enough to start a session
+    const trimmedInput = promptToUse.trim() || (image ? 'Recreate the UI shown in the reference image' : '');
     
-    if (!trimmedInput || isLoading) return;
+    if (!trimmedInput || isLoading || !checkBudget()) return;
     if (!manualPrompt) setInputValue('');
+    setReferenceImage(null);
 
     setIsLoading(true);
     setView('main');
     const baseTime = Date.now();
     const sessionId = generateId();
+    const settings = generationSettings;
+    const directionCount = settings.directionCount;
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
 
-    const placeholderArtifacts: Artifact[] = Array(3).fill(null).map((_, i) => ({
+    const placeholderArtifacts: Artifact[] = Array(directionCount).fill(null).map((_, i) => ({
         id: `${sessionId}_${i}`,
         styleName: 'Designing...',
         html: '',
@@ -336,7 +1213,9 @@ Required JSON Output Format (stream ONE object per line):
         id: sessionId,
         prompt: trimmedInput,
         timestamp: baseTime,
-        artifacts: placeholderArtifacts
+        artifacts: placeholderArtifacts,
+        settings,
+        referenceImage: image || undefined
     };
 
     setSessions(prev => [...prev, newSession]);
@@ -344,15 +1223,17 @@ Required JSON Output Format (stream ONE object per line):
     setFocusedArtifactIndex(null); 
 
     try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API_KEY is not configured.");
-        const ai = new GoogleGenAI({ apiKey });
-
-        const stylePrompt = `Generate 3 distinct creative names for UI directions for: "${trimmedInput}". Return JSON array.`;
-
-        const styleResponse = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: { role: 'user', parts: [{ text: stylePrompt }] }
+        // In design system mode the name anchors every component of a set to one direction
+        const directionKind = settings.mode === 'system' ? 'design system' : 'UI';
+        const stylePrompt = `Generate ${directionCount} distinct creative names for ${directionKind} directions for: "${trimmedInput}". Return JSON array.`;
+
+        const styleResponse = await provider.generate({
+            task: 'styles',
+            prompt: stylePrompt,
+            images: image ? [image] : undefined,
+            model: settings.model || undefined,
+            signal: controller.signal,
+            usageScope: { sessionId }
         });
 
         let generatedStyles: string[] = [];
@@ -367,11 +1248,16 @@ Required JSON Output Format (stream ONE object per line):
             }
         }
 
-        if (!generatedStyles || generatedStyles.length < 3) {
-            generatedStyles = ["Modern Minimal", "High-Tech Dark", "Organic Flow"];
+        if (!Array.isArray(generatedStyles)) generatedStyles = [];
+        generatedStyles = generatedStyles.filter(s => typeof s === 'string' && s.trim());
+
+        // Top up with fallbacks the model didn't already pick
+        if (generatedStyles.length < directionCount) {
+            const extras = FALLBACK_STYLES.filter(f => !generatedStyles.includes(f));
+            generatedStyles = [...generatedStyles, ...extras];
         }
         
-        generatedStyles = generatedStyles.slice(0, 3);
+        generatedStyles = generatedStyles.slice(0, directionCount);
 
         setSessions(prev => prev.map(s => {
             if (s.id !== sessionId) return s;
@@ -384,59 +1270,27 @@ Required JSON Output Format (stream ONE object per line):
             };
         }));
 
-        const generateArtifact = async (artifact: Artifact, styleInstruction: string) => {
-            try {
-                const prompt = `Create a high-fidelity HTML/CSS component for: "${trimmedInput}". Direction: ${styleInstruction}. IMPORTANT: Support both light and dark mode using Tailwind classes. NO MARKDOWN FENCES.`;
-          
-                const responseStream = await ai.models.generateContentStream({
-                    model: 'gemini-3-flash-preview',
-                    contents: [{ parts: [{ text: prompt }], role: "user" }],
-                    config: { systemInstruction: SYSTEM_INSTRUCTION }
-                });
-
-                let accumulatedHtml = '';
-                for await (const chunk of responseStream) {
-                    const text = chunk.text;
-                    if (typeof text === 'string') {
-                        accumulatedHtml += text;
-                        setSessions(prev => prev.map(sess => 
-                            sess.id === sessionId ? {
-                                ...sess,
-                                artifacts: sess.artifacts.map(art => 
-                                    art.id === artifact.id ? { ...art, html: accumulatedHtml } : art
-                                )
-                            } : sess
-                        ));
-                    }
-                }
-                
-                let finalHtml = accumulatedHtml.trim();
-                if (finalHtml.startsWith('```html')) finalHtml = finalHtml.substring(7).trimStart();
-                if (finalHtml.startsWith('```')) finalHtml = finalHtml.substring(3).trimStart();
-                if (finalHtml.endsWith('```')) finalHtml = finalHtml.substring(0, finalHtml.length - 3).trimEnd();
-
-                setSessions(prev => prev.map(sess => 
-                    sess.id === sessionId ? {
-                        ...sess,
-                        artifacts: sess.artifacts.map(art => 
-                            art.id === artifact.id ? { ...art, html: finalHtml, status: finalHtml ? 'complete' : 'error' } : art
-                        )
-                    } : sess
-                ));
-
-            } catch (e: any) {
-                console.error('Error generating artifact:', e);
-            }
-        };
-
-        await Promise.all(placeholderArtifacts.map((art, i) => generateArtifact(art, generatedStyles[i])));
+        controller.signal.throwIfAborted();
+        await Promise.all(placeholderArtifacts.map((art, i) => 
+            streamArtifact(newSession, art.id, generatedStyles[i])
+        ));
 
     } catch (e) {
         console.error("Fatal error in generation process", e);
+        const reason = isAbortError(e) ? 'Cancelled' : errorMessage(e);
+        setSessions(prev => prev.map(sess => 
+            sess.id === sessionId ? {
+                ...sess,
+                artifacts: sess.artifacts.map(art => 
+                    art.status === 'streaming' ? { ...art, status: 'error', error: reason } : art
+                )
+            } : sess
+        ));
     } finally {
+        if (operationControllerRef.current === controller) operationControllerRef.current = null;
         setIsLoading(false);
     }
-  }, [inputValue, isLoading, sessions.length]);
+  }, [inputValue, referenceImage, isLoading, sessions.length, provider, generationSettings, streamArtifact, checkBudget]);
 
   const handleSurpriseMe = () => {
       const currentPrompt = placeholders[placeholderIndex];
@@ -444,6 +1298,31 @@ Required JSON Output Format (stream ONE object per line):
       handleSendMessage(currentPrompt);
   };
 
+  const handleShowPrompts = () => {
+      setPromptNotice(null);
+      setDrawerState({ isOpen: true, mode: 'prompts', title: 'Prompt Library', data: null });
+  };
+
+  const handleUsePrompt = (prompt: string) => {
+      setDrawerState(s => ({ ...s, isOpen: false }));
+      handleSendMessage(prompt);
+  };
+
+  const handleExportPrompts = () => {
+      downloadBlob(exportPromptLibrary(promptLibrary), 'genfeatures-prompts.json');
+      setPromptNotice(`Exported ${promptLibrary.length} prompt${promptLibrary.length === 1 ? '' : 's'}.`);
+  };
+
+  const handleImportPrompts = async (file: File) => {
+      try {
+          const { templates, added, skipped } = mergePromptImport(promptLibrary, await readPromptLibraryFile(file));
+          setPromptLibrary(templates);
+          setPromptNotice(`Imported ${added} prompt${added === 1 ? '' : 's'}${skipped ? `, skipped ${skipped} already in the library` : ''}.`);
+      } catch (e) {
+          setPromptNotice(`Import failed: ${errorMessage(e)}`);
+      }
+  };
+
   const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (event.key === 'Enter' && !isLoading) {
       event.preventDefault();
@@ -456,11 +1335,12 @@ Required JSON Output Format (stream ONE object per line):
 
   const nextItem = useCallback(() => {
       if (focusedArtifactIndex !== null) {
-          if (focusedArtifactIndex < 2) setFocusedArtifactIndex(focusedArtifactIndex + 1);
+          const artifactCount = sessions[currentSessionIndex]?.artifacts.length || 0;
+          if (focusedArtifactIndex < artifactCount - 1) setFocusedArtifactIndex(focusedArtifactIndex + 1);
       } else {
           if (currentSessionIndex < sessions.length - 1) setCurrentSessionIndex(currentSessionIndex + 1);
       }
-  }, [currentSessionIndex, sessions.length, focusedArtifactIndex]);
+  }, [currentSessionIndex, sessions, focusedArtifactIndex]);
 
   const prevItem = useCallback(() => {
       if (focusedArtifactIndex !== null) {
@@ -478,8 +1358,41 @@ Required JSON Output Format (stream ONE object per line):
     setIsFullscreen(prev => !prev);
   };
 
+  // Esc steps back one level: drawer, full screen, focused artifact, then back to the main view
+  const handleEscape = () => {
+    if (drawerState.isOpen) setDrawerState(s => ({ ...s, isOpen: false }));
+    else if (isFullscreen) setIsFullscreen(false);
+    else if (focusedArtifactIndex !== null) setFocusedArtifactIndex(null);
+    else if (view !== 'main') setView('main');
+  };
+
+  const handleStepSession = (delta: number) => {
+    const target = currentSessionIndex + delta;
+    if (target < 0 || target >= sessions.length) return;
+    setCurrentSessionIndex(target);
+    setFocusedArtifactIndex(null);
+  };
+
+  const toggleView = (target: ViewMode) => setView(view === target ? 'main' : target);
+
   const hasStarted = sessions.length > 0 || isLoading;
   const currentSession = sessions[currentSessionIndex];
+  const focusedArtifact = focusedArtifactIndex !== null ? currentSession?.artifacts[focusedArtifactIndex] : undefined;
+  const revisionCount = focusedArtifact?.revisions?.length || 0;
+  const revisionIndex = focusedArtifact?.revisionIndex ?? revisionCount - 1;
+  // Everything the composer can pull from: open sessions plus history, newest first
+  const composerSessions = useMemo(() => {
+      const byId = new Map<string, Session>(history.map(s => [s.id, s]));
+      sessions.forEach(s => byId.set(s.id, s));
+      return Array.from(byId.values()).sort((a, b) => b.timestamp - a.timestamp);
+  }, [sessions, history]);
+  const auditedArtifact = drawerState.mode === 'accessibility' ? currentSession?.artifacts.find(a => a.id === drawerState.data) : undefined;
+  const layoutTarget = drawerState.mode === 'layouts' ? currentSession?.artifacts.find(a => a.id === drawerState.data) : undefined;
+  const focusedIssueCount = focusedArtifact?.audit?.issues.length;
+  const focusedSecuritySummary = useMemo(() => {
+      if (!focusedArtifact || focusedArtifact.status !== 'complete') return '';
+      return summarizeFindings(sanitizeArtifactHtml(focusedArtifact.html, { allowScripts: !!focusedArtifact.scriptsAllowed }).findings);
+  }, [focusedArtifact?.html, focusedArtifact?.status, focusedArtifact?.scriptsAllowed]);
 
   let canGoBack = false;
   let canGoForward = false;
@@ -494,6 +1407,84 @@ Required JSON Output Format (stream ONE object per line):
       }
   }
 
+  const onStage = view === 'main' && hasStarted;
+  const canEditFocused = !!focusedArtifact && view === 'main' && !currentSession?.readOnly;
+  const isFocusedComplete = view === 'main' && focusedArtifact?.status === 'complete';
+  const openDrawer = (mode: 'settings' | 'generation' | 'brand' | 'usage', title: string) => () => setDrawerState({ isOpen: true, mode, title, data: null });
+
+  // Everything in the palette. Shortcuts are listed in the help overlay, disabled or not.
+  const commands: Command[] = [
+      { id: 'palette', group: 'General', label: 'Command palette', binding: PALETTE_BINDING, enabled: true, run: () => setOverlay('palette') },
+      { id: 'shortcuts', group: 'General', label: 'Keyboard shortcuts', binding: { key: '?' }, enabled: true, run: () => setOverlay('shortcuts') },
+      { id: 'prompt', group: 'General', label: 'Focus the prompt', binding: { key: '/' }, enabled: view === 'main' && !isLoading && !isFullscreen, run: () => inputRef.current?.focus() },
+      { id: 'theme', group: 'General', label: 'Toggle light and dark theme', binding: { key: 't' }, enabled: true, run: toggleTheme },
+      { id: 'cancel', group: 'General', label: 'Stop generating', enabled: isLoading, run: handleCancelGeneration },
+      { id: 'home', group: 'General', label: 'Home', enabled: hasStarted || view !== 'main', run: handleGoHome },
+
+      { id: 'back', group: 'Navigate', label: 'Back to grid / close', binding: { key: 'Escape' }, enabled: drawerState.isOpen || isFullscreen || focusedArtifactIndex !== null || view !== 'main', run: handleEscape },
+      { id: 'prev', group: 'Navigate', label: focusedArtifact ? 'Previous direction' : 'Previous session', binding: { key: 'ArrowLeft' }, enabled: canGoBack, run: prevItem },
+      { id: 'next', group: 'Navigate', label: focusedArtifact ? 'Next direction' : 'Next session', binding: { key: 'ArrowRight' }, enabled: canGoForward, run: nextItem },
+      { id: 'prev-session', group: 'Navigate', label: 'Previous session', binding: { key: 'ArrowUp' }, enabled: onStage && focusedArtifactIndex !== null && currentSessionIndex > 0, run: () => handleStepSession(-1) },
+      { id: 'next-session', group: 'Navigate', label: 'Next session', binding: { key: 'ArrowDown' }, enabled: onStage && focusedArtifactIndex !== null && currentSessionIndex < sessions.length - 1, run: () => handleStepSession(1) },
+      ...Array.from({ length: MAX_DIRECTIONS }, (_, i): Command => ({
+          id: `focus-${i + 1}`,
+          group: 'Navigate',
+          label: `Focus ${currentSession?.artifacts[i]?.styleName || `direction ${i + 1}`}`,
+          binding: { key: String(i + 1) },
+          enabled: onStage && !!currentSession?.artifacts[i],
+          run: () => setFocusedArtifactIndex(i)
+      })),
+
+      { id: 'save', group: 'Artifact', label: 'Save to vault', binding: { key: 's' }, enabled: isFocusedComplete, run: handleSaveArtifact },
+      { id: 'refine', group: 'Artifact', label: 'Refine', binding: { key: 'r' }, enabled: canEditFocused && !isLoading, run: () => refineInputRef.current?.focus() },
+      { id: 'variations', group: 'Artifact', label: 'Variations', binding: { key: 'v' }, enabled: canEditFocused && !isLoading, run: handleGenerateVariations },
+      { id: 'layouts', group: 'Artifact', label: 'Layouts', binding: { key: 'l' }, enabled: canEditFocused && !isLoading && isFocusedComplete, run: handleGenerateLayouts },
+      { id: 'repair', group: 'Artifact', label: 'Repair', enabled: canEditFocused && !isLoading && !!focusedArtifact?.warnings?.length, run: handleRepairArtifact },
+      { id: 'revision-prev', group: 'Artifact', label: 'Previous revision', binding: { key: '[' }, enabled: canEditFocused && !isLoading && revisionIndex > 0, run: () => handleStepRevision(-1) },
+      { id: 'revision-next', group: 'Artifact', label: 'Next revision', binding: { key: ']' }, enabled: canEditFocused && !isLoading && revisionIndex < revisionCount - 1, run: () => handleStepRevision(1) },
+      { id: 'compare', group: 'Artifact', label: 'Pin for compare', binding: { key: 'p' }, enabled: isFocusedComplete, run: () => handlePinForCompare(focusedArtifact!, currentSession!.prompt) },
+      { id: 'add-to-page', group: 'Artifact', label: 'Add to page', binding: { key: 'a' }, enabled: isFocusedComplete, run: handleAddToPage },
+      { id: 'source', group: 'Artifact', label: 'Source code', binding: { key: 'c' }, enabled: !!focusedArtifact && view === 'main', run: handleShowCode },
+      { id: 'export', group: 'Artifact', label: 'Download ZIP', binding: { key: 'd' }, enabled: !!focusedArtifact && view === 'main', run: handleShowExport },
+      { id: 'copy-link', group: 'Artifact', label: 'Copy link', enabled: isFocusedComplete, run: handleCopyLink },
+      { id: 'scripts', group: 'Artifact', label: focusedArtifact?.scriptsAllowed ? 'Block scripts' : 'Allow scripts', enabled: !!focusedArtifact && view === 'main', run: handleToggleScripts },
+      { id: 'fullscreen', group: 'Artifact', label: isFullscreen ? 'Exit full screen' : 'Full screen', binding: { key: 'f' }, enabled: !!focusedArtifact && view === 'main', run: handleToggleFullscreen },
+
+      { id: 'view-vault', group: 'Views', label: 'Vault', enabled: true, run: () => toggleView('vault') },
+      { id: 'view-history', group: 'Views', label: 'Session history', enabled: true, run: () => toggleView('history') },
+      { id: 'view-tree', group: 'Views', label: 'Branches', enabled: true, run: () => toggleView('tree') },
+      { id: 'view-composer', group: 'Views', label: 'Page composer', enabled: true, run: () => toggleView('composer') },
+      { id: 'view-compare', group: 'Views', label: 'Compare', enabled: !!(compareSlots[0] || compareSlots[1]), run: () => toggleView('compare') },
+      { id: 'view-stack', group: 'Views', label: 'Tech stack', enabled: true, run: () => toggleView('stack') },
+      { id: 'drawer-provider', group: 'Views', label: 'Model provider', enabled: true, run: openDrawer('settings', 'Model Provider') },
+      { id: 'drawer-generation', group: 'Views', label: 'Generation settings', enabled: true, run: openDrawer('generation', 'Generation Settings') },
+      { id: 'drawer-brand', group: 'Views', label: 'Brand kits', enabled: true, run: openDrawer('brand', 'Brand Kits') },
+      { id: 'drawer-prompts', group: 'Views', label: 'Prompt library', enabled: true, run: handleShowPrompts },
+      { id: 'drawer-usage', group: 'Views', label: 'Usage and cost', enabled: true, run: openDrawer('usage', 'Usage') }
+  ];
+
+  // Single keys only fire outside text fields; there Esc just leaves the field
+  keyHandlerRef.current = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+      if (matchesBinding(event, PALETTE_BINDING)) {
+          event.preventDefault();
+          setOverlay(prev => prev === 'palette' ? null : 'palette');
+          return;
+      }
+      if (overlay) {
+          if (event.key === 'Escape') setOverlay(null);
+          return;
+      }
+      if (isEditableTarget(event.target)) {
+          if (event.key === 'Escape') (event.target as HTMLElement).blur();
+          return;
+      }
+      const command = commands.find(c => c.binding && !c.binding.mod && matchesBinding(event, c.binding));
+      if (!command?.enabled) return;
+      event.preventDefault();
+      command.run();
+  };
+
   return (
     <>
         <div className={`top-nav-controls ${isFullscreen ? 'ui-hidden' : ''}`}>
@@ -506,38 +1497,181 @@ Required JSON Output Format (stream ONE object per line):
             <button className={`nav-icon-btn ${view === 'vault' ? 'active' : ''}`} onClick={() => setView(view === 'vault' ? 'main' : 'vault')} title="Vault / Moodboard">
                 <BookmarkIcon />
             </button>
+            {(compareSlots[0] || compareSlots[1]) && (
+                <button className={`nav-icon-btn ${view === 'compare' ? 'active' : ''}`} onClick={() => setView(view === 'compare' ? 'main' : 'compare')} title="Compare">
+                    <CompareIcon />
+                </button>
+            )}
+            <button className={`nav-icon-btn ${view === 'composer' ? 'active' : ''}`} onClick={() => setView(view === 'composer' ? 'main' : 'composer')} title="Page Composer">
+                <PageIcon />
+            </button>
+            <button className={`nav-icon-btn ${view === 'tree' ? 'active' : ''}`} onClick={() => setView(view === 'tree' ? 'main' : 'tree')} title="Branches">
+                <BranchIcon />
+            </button>
+            <button className={`nav-icon-btn ${view === 'history' ? 'active' : ''}`} onClick={() => setView(view === 'history' ? 'main' : 'history')} title="Session History">
+                <HistoryIcon />
+            </button>
+            <button className={`nav-icon-btn ${activeBrandKit ? 'active' : ''}`} onClick={() => setDrawerState({ isOpen: true, mode: 'brand', title: 'Brand Kits', data: null })} title={activeBrandKit ? `Brand: ${activeBrandKit.name}` : 'Brand Kits'}>
+                <PaletteIcon />
+            </button>
+            <button className={`nav-icon-btn ${isOverBudget(dailyUsage, usageSettings) ? 'over-budget' : ''}`} onClick={() => setDrawerState({ isOpen: true, mode: 'usage', title: 'Usage', data: null })} title="Usage and cost">
+                <GaugeIcon />
+            </button>
+            <button className={`nav-icon-btn ${drawerState.isOpen && drawerState.mode === 'settings' ? 'active' : ''}`} onClick={() => setDrawerState({ isOpen: true, mode: 'settings', title: 'Model Provider', data: null })} title="Model Provider">
+                <SettingsIcon />
+            </button>
         </div>
 
         <a href="https://bento.me/moslih84" target="_blank" rel="noreferrer" className={`creator-credit ${hasStarted ? 'hide-on-mobile' : ''} ${isFullscreen ? 'ui-hidden' : ''}`}>
             created by Moslih84
         </a>
 
+        {overlay === 'palette' && <CommandPalette commands={commands} onClose={() => setOverlay(null)} />}
+        {overlay === 'shortcuts' && <ShortcutHelp commands={commands} onClose={() => setOverlay(null)} />}
+
+        {alertMessage && (
+            <div className="app-toast" role="alert">
+                <span>{alertMessage}</span>
+                <button onClick={() => setAlertMessage(null)} aria-label="Dismiss">&times;</button>
+            </div>
+        )}
+
         <SideDrawer 
             isOpen={drawerState.isOpen} 
             onClose={() => setDrawerState(s => ({...s, isOpen: false}))} 
             title={drawerState.title}
+            className={drawerState.mode === 'code' ? 'editor-drawer' : ''}
         >
-            {isLoading && drawerState.mode === 'variations' && componentVariations.length === 0 && (
+            {isLoading && drawerState.mode === 'variations' && componentVariations.length === 0 && !pendingVariation && (
                  <div className="loading-state">
                      <ThinkingIcon /> 
                      Designing variations...
                  </div>
             )}
 
-            {drawerState.mode === 'code' && (
-                <pre className="code-block"><code>{drawerState.data}</code></pre>
+            {isLoading && drawerState.mode === 'layouts' && layoutOptions.length === 0 && (
+                 <div className="loading-state">
+                     <ThinkingIcon /> 
+                     Designing layouts...
+                 </div>
+            )}
+
+            {drawerState.mode === 'settings' && (
+                <ProviderSettings config={providerConfig} onChange={setProviderConfig} />
+            )}
+
+            {drawerState.mode === 'generation' && (
+                <GenerationSettingsPanel 
+                    settings={generationSettings} 
+                    defaultModel={provider.defaultModel} 
+                    onChange={setGenerationSettings} 
+                />
+            )}
+
+            {drawerState.mode === 'prompts' && (
+                <PromptLibraryPanel 
+                    templates={promptLibrary} 
+                    draft={inputValue} 
+                    notice={promptNotice} 
+                    disabled={isLoading} 
+                    onChange={setPromptLibrary} 
+                    onUse={handleUsePrompt} 
+                    onExport={handleExportPrompts} 
+                    onImport={handleImportPrompts} 
+                />
+            )}
+
+            {drawerState.mode === 'usage' && (
+                <UsagePanel settings={usageSettings} daily={dailyUsage} session={currentSession} onChange={setUsageSettings} />
+            )}
+
+            {drawerState.mode === 'brand' && (
+                <BrandKitPanel state={brandState} onChange={setBrandState} />
+            )}
+
+            {drawerState.mode === 'export' && (
+                <div className="export-list">
+                    {currentSession?.settings?.mode === 'system' && (
+                        <p className="settings-hint">Component set: the ZIP holds the catalog page plus one project folder per component.</p>
+                    )}
+                    {EXPORT_TARGETS.map(target => (
+                        <button key={target.id} className="export-option" onClick={() => handleDownloadZip(target.id)}>
+                            <span className="export-option-label"><DownloadIcon /> {target.label}</span>
+                            <span className="export-option-desc">{target.description}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {drawerState.mode === 'accessibility' && auditedArtifact && (
+                <AccessibilityPanel 
+                    artifact={auditedArtifact} 
+                    isBusy={isLoading || !!currentSession?.readOnly} 
+                    onFix={() => handleFixAccessibility(auditedArtifact.id)} 
+                />
+            )}
+
+            {drawerState.mode === 'code' && focusedArtifact && (
+                // Remount once streaming settles so the editor starts from the finished html
+                <React.Fragment key={`${focusedArtifact.id}-${focusedArtifact.status}`}>
+                    <CodeEditor 
+                        initialValue={focusedArtifact.html} 
+                        resetValue={focusedArtifact.generatedHtml} 
+                        readOnly={focusedArtifact.status === 'streaming' || !!currentSession?.readOnly} 
+                        readOnlyHint={currentSession?.readOnly ? 'Shared components are read-only. Save to the vault to edit a copy.' : undefined} 
+                        onChange={handleSourceEdit} 
+                    />
+                </React.Fragment>
             )}
             
             {drawerState.mode === 'variations' && (
                 <div className="sexy-grid">
+                    {!isLoading && componentVariations.length > 0 && !currentSession?.readOnly && (
+                        <button className="settings-reset branch-open" onClick={handleBranchVariations} title="Keep these variations as a new session linked to this direction">
+                            <BranchIcon /> Open all as a branch
+                        </button>
+                    )}
                     {componentVariations.map((v, i) => (
-                         <div key={i} className="sexy-card" onClick={() => applyVariation(v.html)}>
+                         <div key={i} className="sexy-card" onClick={() => applyVariation(v)}>
                              <div className="sexy-preview">
-                                 <iframe srcDoc={v.html} title={v.name} sandbox="allow-scripts allow-same-origin" />
+                                 <iframe srcDoc={wrapInTemplate(v.html, theme, activeBrandKit, { allowScripts: false })} title={v.name} sandbox="allow-scripts" />
+                             </div>
+                             <div className="sexy-label">
+                                 {v.name}
+                                 <button 
+                                     className="sexy-pin" 
+                                     onClick={(e) => { e.stopPropagation(); handlePinForCompare({ id: generateId(), styleName: v.name, html: v.html, status: 'complete' }, 'Variation'); }} 
+                                     title="Pin for compare"
+                                 >
+                                     <CompareIcon />
+                                 </button>
                              </div>
-                             <div className="sexy-label">{v.name}</div>
                          </div>
                     ))}
+                    {pendingVariation && (
+                         <div className="sexy-card pending">
+                             <div className="sexy-preview">
+                                 <iframe srcDoc={wrapInTemplate(pendingVariation.html, theme, activeBrandKit, { allowScripts: false })} title={pendingVariation.name} sandbox="allow-scripts" />
+                             </div>
+                             <div className="sexy-label"><ThinkingIcon /> {pendingVariation.name}</div>
+                         </div>
+                    )}
+                </div>
+            )}
+
+            {drawerState.mode === 'layouts' && layoutTarget && (
+                <div className="sexy-grid">
+                    {layoutOptions.map((option, i) => (
+                         <div key={i} className="sexy-card" onClick={() => applyLayoutOption(option)}>
+                             <div className="sexy-preview">
+                                 <iframe srcDoc={wrapInTemplate(applyLayout(option, layoutTarget.html), theme, activeBrandKit, { allowScripts: false })} title={option.name} sandbox="allow-scripts" />
+                             </div>
+                             <div className="sexy-label">{option.name}</div>
+                         </div>
+                    ))}
+                    {!isLoading && layoutOptions.length === 0 && (
+                        <p className="settings-hint">The model returned no usable layouts. Try again.</p>
+                    )}
                 </div>
             )}
         </SideDrawer>
@@ -585,54 +1719,61 @@ Required JSON Output Format (stream ONE object per line):
                         </button>
                     </div>
                 </div>
+            ) : view === 'history' ? (
+                <SessionHistory 
+                    history={history}
+                    theme={theme}
+                    brandKit={activeBrandKit}
+                    onOpen={handleOpenFromHistory}
+                    onDelete={handleDeleteFromHistory}
+                    onClose={() => setView('main')}
+                />
+            ) : view === 'composer' ? (
+                <ComposerView 
+                    sections={pageSections} 
+                    sessions={composerSessions} 
+                    saved={vault.artifacts} 
+                    theme={theme} 
+                    brandKit={activeBrandKit} 
+                    onChange={setPageSections} 
+                    onExport={handleExportPage} 
+                    onClose={() => setView('main')} 
+                />
+            ) : view === 'tree' ? (
+                <SessionTree 
+                    sessions={composerSessions} 
+                    currentSessionId={currentSession?.id} 
+                    onOpen={handleOpenBranchNode} 
+                    onClose={() => setView('main')} 
+                />
+            ) : view === 'compare' ? (
+                <CompareView 
+                    slots={compareSlots} 
+                    theme={theme} 
+                    brandKit={activeBrandKit} 
+                    viewportSettings={viewportSettings} 
+                    onViewportChange={setViewportSettings} 
+                    onUnpin={handleUnpinCompare} 
+                    onSwap={() => setCompareSlots(([a, b]) => [b, a])} 
+                    onClose={() => setView('main')} 
+                />
             ) : view === 'vault' ? (
-                <div className="stack-page">
-                    <div className="stack-content">
-                        <div className="vault-header-mood">
-                            <h1>Vault Moodboard</h1>
-                            <p>Stored locally in your browser</p>
-                        </div>
-                        
-                        {savedArtifacts.length === 0 ? (
-                            <div className="empty-vault-state">
-                                <BookmarkIcon />
-                                <p>No components saved yet. Star your favorites to see them here.</p>
-                                <button className="surprise-button" onClick={() => setView('main')}>Return to Generate</button>
-                            </div>
-                        ) : (
-                            <div className="moodboard-grid">
-                                {savedArtifacts.map(saved => (
-                                    <div key={saved.id} className="mood-item">
-                                        <div className="mood-preview" onClick={() => handleRestoreFromVault(saved)}>
-                                            <ArtifactCard 
-                                                artifact={saved} 
-                                                isFocused={false} 
-                                                theme={theme}
-                                                onClick={() => {}}
-                                            />
-                                            <div className="mood-overlay">
-                                                <span>Restore</span>
-                                            </div>
-                                        </div>
-                                        <div className="mood-footer">
-                                            <div className="mood-info">
-                                                <span className="mood-title">{saved.styleName}</span>
-                                                <span className="mood-prompt">{saved.prompt}</span>
-                                            </div>
-                                            <button className="mood-delete" onClick={() => handleRemoveFromVault(saved.id)}>
-                                                <TrashIcon />
-                                            </button>
-                                        </div>
-                                    </div>
-                                ))}
-                            </div>
-                        )}
-                        
-                        <button className="back-btn" onClick={() => setView('main')} style={{ marginTop: '40px' }}>
-                            <HomeIcon /> Return Home
-                        </button>
-                    </div>
-                </div>
+                <VaultView 
+                    vault={vault} 
+                    theme={theme} 
+                    brandKit={activeBrandKit} 
+                    notice={vaultNotice} 
+                    usage={storageUsage} 
+                    onRestore={handleRestoreFromVault} 
+                    onRemove={handleRemoveFromVault} 
+                    onCompare={(saved) => handlePinForCompare(saved, 'Vault')} 
+                    onUpdate={handleUpdateSaved} 
+                    onCreateCollection={handleCreateCollection} 
+                    onDeleteCollection={handleDeleteCollection} 
+                    onExport={handleExportVault} 
+                    onImport={handleImportVault} 
+                    onClose={() => setView('main')} 
+                />
             ) : (
                 <div className={`stage-container ${focusedArtifactIndex !== null ? 'mode-focus' : 'mode-split'} ${isFullscreen ? 'mode-fullscreen' : ''}`}>
                     <div className={`empty-state ${hasStarted ? 'fade-out' : ''}`}>
@@ -653,7 +1794,11 @@ Required JSON Output Format (stream ONE object per line):
                         
                         return (
                             <div key={session.id} className={`session-group ${positionClass}`}>
-                                <div className="artifact-grid" ref={sIndex === currentSessionIndex ? gridScrollRef : null}>
+                                <div 
+                                    className="artifact-grid" 
+                                    ref={sIndex === currentSessionIndex ? gridScrollRef : null}
+                                    style={{ '--grid-cols': getGridColumns(session.artifacts.length) } as React.CSSProperties}
+                                >
                                     {session.artifacts.map((artifact, aIndex) => {
                                         const isFocused = focusedArtifactIndex === aIndex;
                                         
@@ -663,7 +1808,12 @@ Required JSON Output Format (stream ONE object per line):
                                                 artifact={artifact}
                                                 isFocused={isFocused}
                                                 theme={theme}
+                                                brandKit={activeBrandKit}
+                                                viewports={sIndex === currentSessionIndex ? viewports : undefined}
                                                 onClick={() => setFocusedArtifactIndex(aIndex)}
+                                                onCancel={() => handleCancelArtifact(artifact.id)}
+                                                onRetry={session.readOnly ? undefined : () => handleRetryArtifact(session, artifact)}
+                                                onShowAudit={sIndex === currentSessionIndex ? () => handleShowAudit(artifact.id) : undefined}
                                             />
                                         );
                                     })}
@@ -674,6 +1824,12 @@ Required JSON Output Format (stream ONE object per line):
                 </div>
             )}
 
+             {focusedArtifact && view === 'main' && (
+                <div className={`viewport-toolbar-container ${isFullscreen ? 'ui-hidden' : ''}`}>
+                    <ViewportToolbar settings={viewportSettings} onChange={setViewportSettings} />
+                </div>
+             )}
+
              {canGoBack && (
                 <button className="nav-handle left" onClick={prevItem} aria-label="Previous">
                     <ArrowLeftIcon />
@@ -693,8 +1849,71 @@ Required JSON Output Format (stream ONE object per line):
 
             <div className={`action-bar ${hasStarted && view === 'main' ? 'visible' : ''} ${isFullscreen ? 'ui-hidden' : ''}`}>
                  <div className="active-prompt-label">
+                    {currentSession?.referenceImage && (
+                        <img 
+                            className="reference-thumb" 
+                            src={imageDataUrl(currentSession.referenceImage)} 
+                            alt="Reference" 
+                            title={currentSession.referenceImage.name || 'Reference image'} 
+                        />
+                    )}
+                    {currentSession?.settings?.mode === 'system' && (
+                        <span className="prompt-badge"><LayersIcon /> Design system</span>
+                    )}
+                    {currentSession?.parent && (
+                        <button 
+                            className="prompt-badge branch-badge" 
+                            onClick={handleOpenParent} 
+                            disabled={!composerSessions.some(s => s.id === currentSession.parent!.sessionId)} 
+                            title="Go to the direction this branched from"
+                        >
+                            <BranchIcon /> {describeBranch(currentSession.parent)}
+                        </button>
+                    )}
                     {currentSession?.prompt}
                  </div>
+                 {focusedArtifact && currentSession?.readOnly && (
+                    <div className="shared-banner">
+                        <LinkIcon /> Shared component · read-only. Save it to the vault to keep and edit a copy.
+                    </div>
+                 )}
+                 {focusedArtifact && !currentSession?.readOnly && (
+                    <div className="refine-bar">
+                        {revisionCount > 1 && (
+                            <div className="revision-stepper" title={focusedArtifact.revisions![revisionIndex]?.instruction}>
+                                <button onClick={() => handleStepRevision(-1)} disabled={isLoading || revisionIndex <= 0} aria-label="Previous revision">
+                                    <ArrowLeftIcon />
+                                </button>
+                                <span>v{revisionIndex + 1}/{revisionCount}</span>
+                                <button onClick={() => handleStepRevision(1)} disabled={isLoading || revisionIndex >= revisionCount - 1} aria-label="Next revision">
+                                    <ArrowRightIcon />
+                                </button>
+                            </div>
+                        )}
+                        <input 
+                            ref={refineInputRef}
+                            className="refine-input"
+                            type="text"
+                            placeholder="Refine this design, e.g. make the header sticky"
+                            value={refineValue}
+                            onChange={(e) => setRefineValue(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    e.preventDefault();
+                                    if (e.shiftKey) handleRefineInBranch();
+                                    else handleRefineArtifact();
+                                }
+                            }}
+                            disabled={isLoading}
+                        />
+                        <button className="refine-branch" onClick={handleRefineInBranch} disabled={isLoading || !refineValue.trim()} title="Refine in a new branch (Shift+Enter)">
+                            <BranchIcon />
+                        </button>
+                        <button className="refine-send" onClick={handleRefineArtifact} disabled={isLoading || !refineValue.trim()} aria-label="Refine">
+                            {isLoading && focusedArtifact.status === 'streaming' ? <ThinkingIcon /> : <SparklesIcon />}
+                        </button>
+                    </div>
+                 )}
                  <div className="action-buttons">
                     <button onClick={handleGoHome}>
                         <HomeIcon /> Home
@@ -704,16 +1923,51 @@ Required JSON Output Format (stream ONE object per line):
                             <button onClick={() => setFocusedArtifactIndex(null)}>
                                 <GridIcon /> Grid View
                             </button>
-                            <button onClick={handleSaveArtifact} className={savedArtifacts.some(s => s.id === sessions[currentSessionIndex]?.artifacts[focusedArtifactIndex!]?.id) ? 'saved-btn-active' : ''}>
-                                <BookmarkIcon /> {savedArtifacts.some(s => s.id === sessions[currentSessionIndex]?.artifacts[focusedArtifactIndex!]?.id) ? 'Saved' : 'Save'}
+                            <button onClick={handleSaveArtifact} className={vault.artifacts.some(s => s.id === sessions[currentSessionIndex]?.artifacts[focusedArtifactIndex!]?.id) ? 'saved-btn-active' : ''}>
+                                <BookmarkIcon /> {vault.artifacts.some(s => s.id === sessions[currentSessionIndex]?.artifacts[focusedArtifactIndex!]?.id) ? 'Saved' : 'Save'}
+                            </button>
+                            {!currentSession?.readOnly && (
+                                <button onClick={handleGenerateVariations} disabled={isLoading}>
+                                    <SparklesIcon /> Variations
+                                </button>
+                            )}
+                            {!currentSession?.readOnly && (
+                                <button onClick={handleGenerateLayouts} disabled={isLoading || focusedArtifact?.status !== 'complete'} title="Place this component in alternative page layouts">
+                                    <LayoutIcon /> Layouts
+                                </button>
+                            )}
+                            <button 
+                                onClick={() => handlePinForCompare(focusedArtifact!, currentSession!.prompt)} 
+                                disabled={focusedArtifact?.status !== 'complete'} 
+                                title="Pin to compare side by side"
+                            >
+                                <CompareIcon /> {compareSlots[0] && !compareSlots[1] ? 'Compare with A' : 'Compare'}
                             </button>
-                            <button onClick={handleGenerateVariations} disabled={isLoading}>
-                                <SparklesIcon /> Variations
+                            <button onClick={handleAddToPage} disabled={focusedArtifact?.status !== 'complete'} title="Append to the page composer">
+                                <PageIcon /> Add to Page
                             </button>
+                            {!currentSession?.readOnly && !!focusedArtifact?.warnings?.length && (
+                                <button onClick={handleRepairArtifact} disabled={isLoading} title={focusedArtifact.warnings.map(w => w.message).join('\n')}>
+                                    <WarningIcon /> Repair
+                                </button>
+                            )}
                             <button onClick={handleShowCode} aria-label="Source Code">
                                 <CodeIcon /> Source
                             </button>
-                            <button className="download-btn" onClick={handleDownloadZip}>
+                            <button 
+                                onClick={handleToggleScripts} 
+                                className={focusedArtifact?.scriptsAllowed ? 'scripts-allowed' : ''} 
+                                title={focusedSecuritySummary ? `Blocked in preview: ${focusedSecuritySummary}` : 'Nothing blocked in preview'}
+                            >
+                                <ShieldIcon /> {focusedArtifact?.scriptsAllowed ? 'Scripts On' : 'Scripts Off'}
+                            </button>
+                            <button onClick={() => handleShowAudit(focusedArtifact!.id)} disabled={focusedIssueCount === undefined} aria-label="Accessibility">
+                                <AccessibilityIcon /> {focusedIssueCount ? `${focusedIssueCount} Issues` : 'A11y'}
+                            </button>
+                            <button onClick={handleCopyLink} disabled={focusedArtifact?.status !== 'complete'} title="Copy a link that opens this component">
+                                <LinkIcon /> {linkCopied ? 'Copied' : 'Copy Link'}
+                            </button>
+                            <button className="download-btn" onClick={handleShowExport}>
                                 <DownloadIcon /> Download ZIP
                             </button>
                             <button className="fullscreen-btn" onClick={handleToggleFullscreen} title="Full Screen">
@@ -727,7 +1981,18 @@ Required JSON Output Format (stream ONE object per line):
             </div>
 
             <div className={`floating-input-container ${view !== 'main' || isFullscreen ? 'hidden' : ''}`}>
-                <div className={`input-wrapper ${isLoading ? 'loading' : ''}`}>
+                <div 
+                    className={`input-wrapper ${isLoading ? 'loading' : ''} ${referenceImage ? 'has-reference' : ''} ${isDraggingImage ? 'drag-over' : ''}`}
+                    onDragOver={handleDragOver}
+                    onDragLeave={() => setIsDraggingImage(false)}
+                    onDrop={handleDrop}
+                >
+                    {referenceImage && !isLoading && (
+                        <div className="reference-chip" title={referenceImage.name || 'Reference image'}>
+                            <img src={imageDataUrl(referenceImage)} alt="Reference" />
+                            <button onClick={() => setReferenceImage(null)} aria-label="Remove reference image">&times;</button>
+                        </div>
+                    )}
                     {(!inputValue && !isLoading) && (
                         <div className="animated-placeholder" key={placeholderIndex}>
                             <span className="placeholder-text">{placeholders[placeholderIndex]}</span>
@@ -741,6 +2006,7 @@ Required JSON Output Format (stream ONE object per line):
                             value={inputValue} 
                             onChange={handleInputChange} 
                             onKeyDown={handleKeyDown} 
+                            onPaste={handlePaste}
                             disabled={isLoading} 
                         />
                     ) : (
@@ -749,9 +2015,55 @@ Required JSON Output Format (stream ONE object per line):
                             <ThinkingIcon />
                         </div>
                     )}
-                    <button className="send-button" onClick={() => handleSendMessage()} disabled={isLoading || !inputValue.trim()}>
-                        <ArrowUpIcon />
+                    <input 
+                        ref={imageInputRef} 
+                        type="file" 
+                        accept="image/*" 
+                        hidden 
+                        onChange={(e) => { handleAttachImage(e.target.files?.[0]); e.target.value = ''; }} 
+                    />
+                    <button 
+                        className="input-settings-button" 
+                        onClick={handleShowPrompts} 
+                        title="Prompt library"
+                        disabled={isLoading}
+                    >
+                        <BookIcon />
+                    </button>
+                    <button 
+                        className="input-settings-button" 
+                        onClick={() => imageInputRef.current?.click()} 
+                        title="Attach a reference screenshot or wireframe"
+                        disabled={isLoading}
+                    >
+                        <ImageIcon />
+                    </button>
+                    <button 
+                        className={`input-settings-button ${generationSettings.mode === 'system' ? 'active' : ''}`} 
+                        onClick={() => setGenerationSettings(s => ({ ...s, mode: s.mode === 'system' ? 'component' : 'system' }))} 
+                        title={generationSettings.mode === 'system' ? 'Design system mode: each direction is a matching component set' : 'Switch to design system mode'}
+                        aria-pressed={generationSettings.mode === 'system'}
+                        disabled={isLoading}
+                    >
+                        <LayersIcon />
                     </button>
+                    <button 
+                        className="input-settings-button" 
+                        onClick={() => setDrawerState({ isOpen: true, mode: 'generation', title: 'Generation Settings', data: null })} 
+                        title="Generation Settings"
+                        disabled={isLoading}
+                    >
+                        <SlidersIcon /> <span>{generationSettings.directionCount}</span>
+                    </button>
+                    {isLoading ? (
+                        <button className="send-button stop-button" onClick={handleCancelGeneration} aria-label="Stop generating" title="Stop generating">
+                            <StopIcon />
+                        </button>
+                    ) : (
+                        <button className="send-button" onClick={() => handleSendMessage()} disabled={!inputValue.trim() && !referenceImage}>
+                            <ArrowUpIcon />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AccessibilityIssue, BrandKit } from '../types.ts';
+import { generateId } from '../utils.ts';
+import { wrapInTemplate } from './template.ts';
+
+const AUDIT_TIMEOUT_MS = 20000;
+// Contrast findings are capped per theme; one bad text color usually repeats everywhere
+const MAX_CONTRAST_ISSUES = 12;
+
+/**
+ * Runs inside the audit iframe against the rendered DOM and posts the findings
+ * back to the parent. It is injected with Function.prototype.toString, so it
+ * must not reference anything outside its own body.
+ */
+function auditDocument(token: string, maxContrastIssues: number) {
+    type Rgba = { r: number; g: number; b: number; a: number };
+    const issues: AccessibilityIssue[] = [];
+
+    const describe = (el: Element) => {
+        let text = el.tagName.toLowerCase();
+        if (el.id) text += `#${el.id}`;
+        const classes = Array.from(el.classList).slice(0, 3);
+        if (classes.length) text += `.${classes.join('.')}`;
+        return text;
+    };
+    const snippetOf = (el: Element) => {
+        const html = el.outerHTML.replace(/\s+/g, ' ');
+        return html.length > 140 ? `${html.substring(0, 140)}…` : html;
+    };
+    const report = (el: Element, issue: Pick<AccessibilityIssue, 'rule' | 'severity' | 'message' | 'theme'>) => {
+        issues.push({ ...issue, element: describe(el), snippet: snippetOf(el) });
+    };
+
+    const isRendered = (el: Element) => {
+        if (el.closest('[aria-hidden="true"], [hidden]')) return false;
+        if (el.getClientRects().length === 0) return false;
+        const style = getComputedStyle(el);
+        return style.visibility !== 'hidden' && style.opacity !== '0';
+    };
+    const textOf = (value: string | null | undefined) => (value || '').trim();
+    const labelledByText = (el: Element) =>
+        textOf(el.getAttribute('aria-labelledby')).split(/\s+/).filter(Boolean)
+            .map(id => textOf(document.getElementById(id)?.textContent)).join(' ');
+    const hasAccessibleName = (el: Element) =>
+        !!(textOf(el.getAttribute('aria-label')) || labelledByText(el) || textOf(el.getAttribute('title')) || textOf(el.textContent)) ||
+        Array.from(el.querySelectorAll('img[alt], [aria-label], svg title'))
+            .some(child => textOf(child.getAttribute('alt') ?? child.getAttribute('aria-label') ?? child.textContent));
+
+    // Images
+    document.querySelectorAll('img').forEach(img => {
+        if (!isRendered(img) || img.hasAttribute('alt')) return;
+        if (['presentation', 'none'].includes(img.getAttribute('role') || '')) return;
+        report(img, { rule: 'image-alt', severity: 'error', message: 'Image has no alt attribute. Describe it, or use alt="" if it is decorative.' });
+    });
+
+    // Form controls
+    const skippedInputTypes = ['hidden', 'submit', 'button', 'reset', 'image'];
+    document.querySelectorAll('input, select, textarea').forEach(control => {
+        if (control instanceof HTMLInputElement && skippedInputTypes.includes(control.type)) return;
+        if (!isRendered(control)) return;
+        const labels = (control as HTMLInputElement).labels;
+        const labelled = textOf(control.getAttribute('aria-label')) || labelledByText(control) || textOf(control.getAttribute('title')) ||
+            (labels && Array.from(labels).some(label => textOf(label.textContent)));
+        if (!labelled) {
+            const placeholderNote = control.hasAttribute('placeholder') ? ' A placeholder is not a label.' : '';
+            report(control, { rule: 'form-label', severity: 'error', message: `Form control has no label.${placeholderNote}` });
+        }
+    });
+
+    // Buttons and links
+    document.querySelectorAll('button, a[href], [role="button"], [role="link"]').forEach(control => {
+        if (!isRendered(control) || hasAccessibleName(control)) return;
+        const kind = control.tagName === 'A' || control.getAttribute('role') === 'link' ? 'Link' : 'Button';
+        report(control, { rule: 'control-name', severity: 'error', message: `${kind} has no accessible name. Add text or an aria-label.` });
+    });
+
+    // Heading order
+    let previousLevel = 0;
+    document.querySelectorAll('h1, h2, h3, h4, h5, h6, [role="heading"][aria-level]').forEach(heading => {
+        if (!isRendered(heading)) return;
+        const level = /^H\d$/.test(heading.tagName) ? Number(heading.tagName[1]) : Number(heading.getAttribute('aria-level'));
+        if (previousLevel && level > previousLevel + 1) {
+            report(heading, { rule: 'heading-order', severity: 'warning', message: `Heading level jumps from h${previousLevel} to h${level}.` });
+        }
+        previousLevel = level;
+    });
+
+    // Contrast
+    const parseColor = (value: string): Rgba | null => {
+        const match = value.match(/rgba?\(([^)]+)\)/);
+        if (!match) return null;
+        const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+        if (parts.length < 3 || parts.some(isNaN)) return null;
+        return { r: parts[0], g: parts[1], b: parts[2], a: parts.length > 3 ? parts[3] : 1 };
+    };
+    const blend = (top: Rgba, bottom: Rgba): Rgba => ({
+        r: top.r * top.a + bottom.r * (1 - top.a),
+        g: top.g * top.a + bottom.g * (1 - top.a),
+        b: top.b * top.a + bottom.b * (1 - top.a),
+        a: 1
+    });
+    // Effective background behind an element, or null when an image or gradient makes it unknowable
+    const backgroundOf = (el: Element): Rgba | null => {
+        const layers: Rgba[] = [];
+        for (let node: Element | null = el; node; node = node.parentElement) {
+            const style = getComputedStyle(node);
+            if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+            const color = parseColor(style.backgroundColor);
+            if (color && color.a > 0) {
+                layers.push(color);
+                if (color.a >= 1) break;
+            }
+        }
+        return layers.reverse().reduce((under, layer) => blend(layer, under), { r: 255, g: 255, b: 255, a: 1 });
+    };
+    const luminance = ({ r, g, b }: Rgba) => {
+        const channel = (v: number) => {
+            const c = v / 255;
+            return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+        };
+        return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+    };
+    const contrastRatio = (a: Rgba, b: Rgba) => {
+        const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+        return (light + 0.05) / (dark + 0.05);
+    };
+
+    const textElements = new Set<Element>();
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const owner = node.parentElement;
+        if (owner && textOf(node.textContent) && !owner.closest('script, style, noscript')) textElements.add(owner);
+    }
+
+    const checkContrast = (theme: 'light' | 'dark') => {
+        let found = 0;
+        textElements.forEach(el => {
+            if (found >= maxContrastIssues || !isRendered(el)) return;
+            const style = getComputedStyle(el);
+            const background = backgroundOf(el);
+            const color = parseColor(style.color);
+            if (!background || !color) return;
+            const foreground = color.a < 1 ? blend(color, background) : color;
+            const fontSize = parseFloat(style.fontSize);
+            const isLarge = fontSize >= 24 || (fontSize >= 18.66 && Number(style.fontWeight) >= 700);
+            const required = isLarge ? 3 : 4.5;
+            const ratio = contrastRatio(foreground, background);
+            if (ratio < required) {
+                found++;
+                report(el, {
+                    rule: 'contrast',
+                    severity: 'error',
+                    theme,
+                    message: `Text contrast ${ratio.toFixed(2)}:1 in ${theme} mode is below ${required}:1.`
+                });
+            }
+        });
+    };
+
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    const run = async () => {
+        // Freeze transitions so computed colors are final right after a theme switch
+        const freeze = document.createElement('style');
+        freeze.textContent = '*, *::before, *::after { transition: none !important; }';
+        document.head.appendChild(freeze);
+
+        for (const theme of ['light', 'dark'] as const) {
+            document.documentElement.classList.toggle('dark', theme === 'dark');
+            await wait(50);
+            checkContrast(theme);
+        }
+        parent.postMessage({ type: 'genfeatures:audit', token, issues }, '*');
+    };
+
+    // Give the Tailwind CDN a moment to generate styles after load
+    const start = () => setTimeout(run, 300);
+    if (document.readyState === 'complete') start();
+    else window.addEventListener('load', start);
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+const runAudit = (html: string, brandKit: BrandKit | null, signal?: AbortSignal) =>
+    new Promise<AccessibilityIssue[]>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const token = generateId();
+        const iframe = document.createElement('iframe');
+        iframe.setAttribute('sandbox', 'allow-scripts');
+        iframe.setAttribute('aria-hidden', 'true');
+        iframe.tabIndex = -1;
+        // Desktop-sized and offscreen, so layout matches a typical preview
+        iframe.style.cssText = 'position: fixed; left: -10000px; top: 0; width: 1280px; height: 800px; border: 0;';
+
+        const cleanup = () => {
+            window.clearTimeout(timeout);
+            window.removeEventListener('message', handleMessage);
+            signal?.removeEventListener('abort', handleAbort);
+            iframe.remove();
+        };
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== iframe.contentWindow || event.data?.type !== 'genfeatures:audit' || event.data.token !== token) return;
+            cleanup();
+            resolve(event.data.issues);
+        };
+        const handleAbort = () => {
+            cleanup();
+            reject(signal!.reason);
+        };
+        const timeout = window.setTimeout(() => {
+            cleanup();
+            reject(new Error('Accessibility audit timed out.'));
+        }, AUDIT_TIMEOUT_MS);
+
+        window.addEventListener('message', handleMessage);
+        signal?.addEventListener('abort', handleAbort);
+
+        // Same lockdown as the previews; the audit itself is the only script the frame trusts
+        iframe.srcdoc = wrapInTemplate(html, 'light', brandKit, {
+            allowScripts: false,
+            trustedScript: `(${auditDocument.toString()})(${JSON.stringify(token)}, ${MAX_CONTRAST_ISSUES});`
+        });
+        document.body.appendChild(iframe);
+    });
+
+/**
+ * Audits an artifact's rendered DOM for missing alt text, unlabeled controls,
+ * heading order and text contrast in both themes. Audits run one at a time
+ * since each loads a full preview document.
+ */
+export const auditArtifact = (html: string, brandKit: BrandKit | null, signal?: AbortSignal): Promise<AccessibilityIssue[]> => {
+    const job = queue.then(() => runAudit(html, brandKit, signal));
+    queue = job.catch(() => undefined);
+    return job;
+};
+
+/** Turns audit findings into a refinement instruction for the model. */
+export const buildAccessibilityInstruction = (issues: AccessibilityIssue[]) => {
+    const lines = issues.map(issue => `- [${issue.rule}${issue.theme ? `, ${issue.theme} mode` : ''}] ${issue.element}: ${issue.message}\n  ${issue.snippet}`);
+    return `Fix these accessibility issues found by an automated audit:
+${lines.join('\n')}
+Contrast must reach 4.5:1 for body text and 3:1 for large text in both light and dark mode. Keep the design otherwise unchanged.`;
+};
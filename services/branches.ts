@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Artifact, Session, SessionParent } from '../types.ts';
+import { generateId } from '../utils.ts';
+
+export interface SessionNode {
+    session: Session;
+    children: SessionNode[];
+    // Newest timestamp in this subtree, so recently active trees sort first
+    latest: number;
+}
+
+export const findArtifactSession = (sessions: Session[], artifactId: string) =>
+    sessions.find(s => s.artifacts.some(a => a.id === artifactId));
+
+/** A new session started from `parent`, holding fresh copies of `artifacts`. */
+export const createBranchSession = (source: Pick<Session, 'prompt' | 'settings' | 'referenceImage'>, parent: SessionParent, artifacts: Artifact[]): Session => ({
+    id: generateId(),
+    prompt: source.prompt,
+    timestamp: Date.now(),
+    artifacts: artifacts.map(a => ({ ...a, id: generateId(), usage: undefined, audit: undefined })),
+    settings: source.settings,
+    referenceImage: source.referenceImage,
+    parent
+});
+
+export const describeBranch = (parent: SessionParent) => {
+    switch (parent.kind) {
+        case 'variation':
+            return `Variations of ${parent.styleName}`;
+        case 'refinement':
+            return `Refined from ${parent.styleName}`;
+        case 'restore':
+            return `Restored ${parent.styleName}`;
+    }
+};
+
+/**
+ * Sessions arranged by the artifact they branched from. Sessions whose parent
+ * is gone (deleted from history, or never recorded) are roots.
+ */
+export const buildSessionTree = (sessions: Session[]): SessionNode[] => {
+    const ids = new Set(sessions.map(s => s.id));
+    const childrenOf = new Map<string, Session[]>();
+    const roots: Session[] = [];
+    sessions.forEach(session => {
+        const parentId = session.parent?.sessionId;
+        if (parentId && parentId !== session.id && ids.has(parentId)) {
+            childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), session]);
+        } else {
+            roots.push(session);
+        }
+    });
+
+    const visited = new Set<string>();
+    const toNode = (session: Session): SessionNode => {
+        visited.add(session.id);
+        const children = (childrenOf.get(session.id) || [])
+            .filter(child => !visited.has(child.id))
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .map(toNode);
+        return { session, children, latest: Math.max(session.timestamp, ...children.map(c => c.latest)) };
+    };
+    return roots.map(toNode).sort((a, b) => b.latest - a.latest);
+};
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BrandKit } from '../types.ts';
+import { generateId } from '../utils.ts';
+
+const BRAND_STORAGE_KEY = 'genfeatures_brand_kits';
+
+export interface BrandKitState {
+    kits: BrandKit[];
+    activeId: string | null;
+}
+
+const SPACING_STEPS = [0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96];
+
+export const createBrandKit = (name: string): BrandKit => ({
+    id: generateId(),
+    name,
+    colors: {
+        primary: '#4f46e5',
+        secondary: '#0ea5e9',
+        accent: '#f59e0b',
+        neutral: '#71717a'
+    },
+    fonts: {
+        heading: 'Inter',
+        body: 'Inter'
+    },
+    radius: 8,
+    spacingUnit: 4
+});
+
+export const loadBrandKits = (): BrandKitState => {
+    const saved = localStorage.getItem(BRAND_STORAGE_KEY);
+    if (!saved) return { kits: [], activeId: null };
+    try {
+        const parsed = JSON.parse(saved);
+        const kits: BrandKit[] = Array.isArray(parsed.kits) ? parsed.kits : [];
+        const activeId = kits.some(k => k.id === parsed.activeId) ? parsed.activeId : null;
+        return { kits, activeId };
+    } catch (e) {
+        console.error("Failed to parse brand kits", e);
+        return { kits: [], activeId: null };
+    }
+};
+
+export const saveBrandKits = (state: BrandKitState) => {
+    localStorage.setItem(BRAND_STORAGE_KEY, JSON.stringify(state));
+};
+
+const px = (value: number) => `${Math.round(value * 100) / 100}px`;
+
+/** Tailwind `theme.extend` for a kit; the zinc override is always present. */
+export const brandThemeExtend = (kit: BrandKit | null) => {
+    const extend: Record<string, any> = {
+        colors: { zinc: { 950: '#09090b' } }
+    };
+    if (!kit) return extend;
+
+    extend.colors.brand = { ...kit.colors };
+    extend.fontFamily = {
+        sans: [kit.fonts.body, 'sans-serif'],
+        heading: [kit.fonts.heading, 'sans-serif']
+    };
+    // Override the common radius steps so artifacts re-skin when the kit changes
+    const r = kit.radius;
+    extend.borderRadius = {
+        sm: px(r * 0.5), DEFAULT: px(r), md: px(r), lg: px(r * 1.5),
+        xl: px(r * 2), '2xl': px(r * 3), '3xl': px(r * 4), brand: px(r)
+    };
+    if (kit.spacingUnit !== 4) {
+        extend.spacing = Object.fromEntries(SPACING_STEPS.map(step => [String(step), px(step * kit.spacingUnit)]));
+    }
+    return extend;
+};
+
+/** Google Fonts stylesheet URL covering the kit's fonts (Inter without a kit). */
+export const brandFontsHref = (kit: BrandKit | null) => {
+    const families = Array.from(new Set(kit ? [kit.fonts.heading, kit.fonts.body] : ['Inter']))
+        .filter(Boolean)
+        .map(f => `family=${encodeURIComponent(f).replace(/%20/g, '+')}:wght@400;500;600;700`);
+    return `https://fonts.googleapis.com/css2?${families.join('&')}&display=swap`;
+};
+
+/** Prompt layer telling the model to build from the kit's tokens. */
+export const buildBrandInstruction = (kit: BrandKit) => `
+BRAND KIT "${kit.name}". Use these design tokens instead of arbitrary colors and fonts:
+- Colors are configured as Tailwind utilities: brand-primary (${kit.colors.primary}), brand-secondary (${kit.colors.secondary}), brand-accent (${kit.colors.accent}), brand-neutral (${kit.colors.neutral}). Use classes like bg-brand-primary, text-brand-accent, border-brand-neutral/20. Never hard-code hex values.
+- Typography: add font-heading to headings (${kit.fonts.heading}); body text uses the default font-sans (${kit.fonts.body}).
+- Shape: use rounded, rounded-lg, rounded-xl; they are tuned to the brand radius (${kit.radius}px).
+- Spacing: use the standard Tailwind spacing scale; it is tuned to the brand.
+`.trim();
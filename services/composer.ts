@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PageSection } from '../types.ts';
+import { generateId } from '../utils.ts';
+
+// The preview shell centers a single widget; a page stacks full-width sections from the top
+const PAGE_STYLE = '<style>body { display: block; padding: 0; } [data-page-section] { width: 100%; }</style>';
+
+export const createPageSection = (styleName: string, html: string, source: string): PageSection => ({
+    id: generateId(),
+    styleName,
+    html,
+    source
+});
+
+/** Moves the section at `from` so it ends up at index `to`. */
+export const moveSection = (sections: PageSection[], from: number, to: number) => {
+    if (from === to || from < 0 || from >= sections.length) return sections;
+    const next = [...sections];
+    const [moved] = next.splice(from, 1);
+    next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+    return next;
+};
+
+/** Body markup for the composed page; pass it through wrapInTemplate like any artifact. */
+export const composePageHtml = (sections: PageSection[]) => [
+    PAGE_STYLE,
+    ...sections.map(s => `<div data-page-section="${s.id}">\n${s.html}\n</div>`)
+].join('\n');
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ComponentSetEntry {
+    id: string;
+    label: string;
+    // What the model is asked to include in the entry's section
+    brief: string;
+}
+
+export interface ComponentSetPart {
+    id: string;
+    label: string;
+    html: string;
+}
+
+export const DESIGN_SYSTEM_COMPONENTS: ComponentSetEntry[] = [
+    { id: 'buttons', label: 'Buttons', brief: 'primary, secondary, ghost and destructive buttons, plus disabled and icon-only variants' },
+    { id: 'inputs', label: 'Inputs', brief: 'labelled text field, select, checkbox, radio group and toggle, plus a field in its error state' },
+    { id: 'cards', label: 'Cards', brief: 'a content card, a stat card and a media card with an image placeholder' },
+    { id: 'nav', label: 'Navigation', brief: 'a top navigation bar with logo, links and a call to action, plus a tab bar' },
+    { id: 'modal', label: 'Modal', brief: 'a confirmation dialog with title, body text and cancel and confirm actions' }
+];
+
+const SECTION_ATTRIBUTE = 'data-component';
+
+/**
+ * Prompt for one direction of a design system. The whole set is generated in a
+ * single response so every component is written against the same choices.
+ */
+export const buildComponentSetPrompt = (prompt: string, styleName: string, referenceNote = '') => `
+Create a cohesive design system component set for: "${prompt}". Direction: ${styleName}.${referenceNote}
+Render it as ONE catalog page: a short title naming the direction, then one <section ${SECTION_ATTRIBUTE}="ID"> per component, in this order:
+${DESIGN_SYSTEM_COMPONENTS.map(c => `- ${c.id} (${c.label}): ${c.brief}`).join('\n')}
+Give each section a small heading with the component name.
+All components must share the same colors, radii, typography, shadows and spacing so they read as one system.
+Show the modal open and inline inside its section: no fixed positioning and no page overlay.
+IMPORTANT: Support both light and dark mode using Tailwind classes. NO MARKDOWN FENCES.
+`.trim();
+
+// Repeated sections get numbered ids (buttons-2), labelled "Buttons 2"
+const labelFor = (id: string) => {
+    const [, base, count] = id.match(/^(.*?)(?:-(\d+))?$/) || ['', id];
+    const label = DESIGN_SYSTEM_COMPONENTS.find(c => c.id === base)?.label || base.charAt(0).toUpperCase() + base.slice(1);
+    return count ? `${label} ${count}` : label;
+};
+
+/**
+ * Pulls the individual components back out of a catalog page. Page-level
+ * <style> blocks are copied into every part so each one renders on its own.
+ */
+export const splitComponentSet = (html: string): ComponentSetPart[] => {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    const sharedStyles = Array.from(template.content.querySelectorAll('style'))
+        .filter(style => !style.closest(`[${SECTION_ATTRIBUTE}]`))
+        .map(style => style.outerHTML);
+
+    const seen = new Set<string>();
+    return Array.from(template.content.querySelectorAll<HTMLElement>(`[${SECTION_ATTRIBUTE}]`))
+        .filter(section => !section.parentElement?.closest(`[${SECTION_ATTRIBUTE}]`))
+        .map(section => {
+            let id = (section.getAttribute(SECTION_ATTRIBUTE) || '').trim().toLowerCase() || 'component';
+            for (let n = 2; seen.has(id); n++) id = `${id.replace(/-\d+$/, '')}-${n}`;
+            seen.add(id);
+            return { id, label: labelFor(id), html: [...sharedStyles, section.outerHTML].join('\n') };
+        });
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+    op: DiffOp;
+    text: string;
+    // 1-based line numbers on each side; absent on the side the line doesn't exist
+    beforeLine?: number;
+    afterLine?: number;
+}
+
+export type DiffRow = DiffLine | { op: 'skipped'; count: number };
+
+export interface DiffStats {
+    added: number;
+    removed: number;
+}
+
+// Beyond this many cells the LCS table gets too slow, so the middle is shown as a rewrite
+const MAX_TABLE_CELLS = 4_000_000;
+
+/**
+ * Line diff of two texts. Common leading and trailing lines are matched
+ * directly; the rest is aligned with a longest-common-subsequence table.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const lines: DiffLine[] = [];
+    const equal = (i: number, j: number) => lines.push({ op: 'equal', text: a[i], beforeLine: i + 1, afterLine: j + 1 });
+    const removed = (i: number) => lines.push({ op: 'removed', text: a[i], beforeLine: i + 1 });
+    const added = (j: number) => lines.push({ op: 'added', text: b[j], afterLine: j + 1 });
+
+    for (let i = 0; i < start; i++) equal(i, i);
+
+    const rows = endA - start;
+    const cols = endB - start;
+    if (rows * cols > MAX_TABLE_CELLS) {
+        for (let i = start; i < endA; i++) removed(i);
+        for (let j = start; j < endB; j++) added(j);
+    } else {
+        // lcs[i][j] = length of the LCS of a[start + i..endA) and b[start + j..endB)
+        const width = cols + 1;
+        const lcs = new Uint32Array((rows + 1) * width);
+        for (let i = rows - 1; i >= 0; i--) {
+            for (let j = cols - 1; j >= 0; j--) {
+                lcs[i * width + j] = a[start + i] === b[start + j]
+                    ? lcs[(i + 1) * width + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < rows && j < cols) {
+            if (a[start + i] === b[start + j]) {
+                equal(start + i++, start + j++);
+            } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+                removed(start + i++);
+            } else {
+                added(start + j++);
+            }
+        }
+        while (i < rows) removed(start + i++);
+        while (j < cols) added(start + j++);
+    }
+
+    for (let k = 0; k < a.length - endA; k++) equal(endA + k, endB + k);
+    return lines;
+};
+
+export const diffStats = (lines: DiffLine[]): DiffStats => ({
+    added: lines.filter(l => l.op === 'added').length,
+    removed: lines.filter(l => l.op === 'removed').length
+});
+
+/** Collapses unchanged runs longer than twice `context` into a single skipped row. */
+export const collapseUnchanged = (lines: DiffLine[], context = 3): DiffRow[] => {
+    const rows: DiffRow[] = [];
+    let run: DiffLine[] = [];
+    const flush = (isStart: boolean, isEnd: boolean) => {
+        const head = isStart ? 0 : context;
+        const tail = isEnd ? 0 : context;
+        if (run.length > head + tail + 1) {
+            rows.push(...run.slice(0, head));
+            rows.push({ op: 'skipped', count: run.length - head - tail });
+            rows.push(...run.slice(run.length - tail));
+        } else {
+            rows.push(...run);
+        }
+        run = [];
+    };
+
+    lines.forEach(line => {
+        if (line.op === 'equal') {
+            run.push(line);
+            return;
+        }
+        if (run.length) flush(rows.length === 0, false);
+        rows.push(line);
+    });
+    if (run.length) flush(rows.length === 0, true);
+    return rows;
+};
@@ -0,0 +1,325 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import JSZip from 'jszip';
+import { BrandKit } from '../../types.ts';
+import { brandFontsHref, brandThemeExtend } from '../brandKits.ts';
+import { wrapInTemplate } from '../template.ts';
+import { splitComponentSet } from '../designSystem.ts';
+import { escapeHtml } from '../htmlTools.ts';
+import { escapeTemplateBraces, htmlToJsx, splitArtifactHtml, toComponentName } from './markup.ts';
+
+export type ExportTarget = 'html' | 'react' | 'vue' | 'svelte';
+
+export interface ExportTargetInfo {
+    id: ExportTarget;
+    label: string;
+    description: string;
+}
+
+export const EXPORT_TARGETS: ExportTargetInfo[] = [
+    { id: 'html', label: 'Standalone HTML', description: 'Single file with Tailwind CDN, Inter and dark mode, exactly as previewed.' },
+    { id: 'react', label: 'React (TSX)', description: 'Vite + React + Tailwind project with a typed component.' },
+    { id: 'vue', label: 'Vue SFC', description: 'Vite + Vue 3 + Tailwind project with a single-file component.' },
+    { id: 'svelte', label: 'Svelte', description: 'Vite + Svelte 5 + Tailwind project with a .svelte component.' }
+];
+
+export interface ExportSource {
+    id: string;
+    html: string;
+    styleName: string;
+    prompt: string;
+}
+
+type ExportFiles = Record<string, string>;
+
+export const slugify = (value: string) =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'component';
+
+const indent = (code: string, depth: number) =>
+    code.split('\n').map(line => line ? '  '.repeat(depth) + line : line).join('\n');
+
+const tailwindConfig = (brandKit: BrandKit | null) => {
+    const extend = brandThemeExtend(brandKit);
+    if (!extend.fontFamily) extend.fontFamily = { sans: ['Inter', 'sans-serif'] };
+    return `/** @type {import('tailwindcss').Config} */
+export default {
+  darkMode: 'class',
+  content: ['./index.html', './src/**/*.{js,ts,jsx,tsx,vue,svelte}'],
+  theme: {
+    extend: ${indent(JSON.stringify(extend, null, 2), 2).trimStart()},
+  },
+  plugins: [],
+};
+`;
+};
+
+const POSTCSS_CONFIG = `export default {
+  plugins: { tailwindcss: {}, autoprefixer: {} },
+};
+`;
+
+const BASE_CSS = `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+
+body {
+  margin: 0;
+  min-height: 100vh;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: 20px;
+}
+`;
+
+const TAILWIND_DEV_DEPS = {
+    autoprefixer: '^10.4.20',
+    postcss: '^8.4.49',
+    tailwindcss: '^3.4.17',
+    vite: '^6.2.0'
+};
+
+const indexHtml = (title: string, theme: 'light' | 'dark', brandKit: BrandKit | null, entry: string, externalScripts: string[]) => `<!DOCTYPE html>
+<html lang="en" class="${theme === 'dark' ? 'dark' : ''}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(title)}</title>
+    <link href="${brandFontsHref(brandKit)}" rel="stylesheet" />
+${externalScripts.map(src => `    <script src="${src}"></script>\n`).join('')}  </head>
+  <body class="bg-white dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100">
+    <div id="app"></div>
+    <script type="module" src="${entry}"></script>
+  </body>
+</html>
+`;
+
+const packageJson = (name: string, extra: { dependencies?: Record<string, string>; devDependencies?: Record<string, string>; scripts?: Record<string, string> }) =>
+    JSON.stringify({
+        name,
+        private: true,
+        version: '0.0.0',
+        type: 'module',
+        scripts: extra.scripts || { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+        dependencies: extra.dependencies || {},
+        devDependencies: extra.devDependencies || {}
+    }, null, 2) + '\n';
+
+const readme = (source: ExportSource, targetLabel: string, run: string[], notes: string[]) => `# ${source.styleName}
+
+Generated with GenFeatures and exported as **${targetLabel}**.
+
+> ${source.prompt}
+
+## Run
+
+${run.map(step => `    ${step}`).join('\n')}
+${notes.length ? `\n## Notes\n\n${notes.map(n => `- ${n}`).join('\n')}\n` : ''}`;
+
+const FRAMEWORK_NOTES = [
+    'Tailwind is configured with `darkMode: \'class\'`; toggle the `dark` class on `<html>` to switch themes.',
+    'Inline `on*` attributes from the generated HTML are not carried over. Wire interactions with the framework\'s event bindings.'
+];
+
+const scriptsNote = (count: number, hook: string) =>
+    count > 0 ? [`${count} inline script(s) from the original HTML run once inside \`${hook}\`.`] : [];
+
+const buildHtml = (source: ExportSource, theme: 'light' | 'dark', brandKit: BrandKit | null): ExportFiles => {
+    const name = slugify(source.styleName);
+    return {
+        'index.html': wrapInTemplate(source.html, theme, brandKit),
+        'package.json': packageJson(name, { scripts: { start: 'npx serve .' } }),
+        'README.md': readme(source, 'standalone HTML', ['npm start', '# or open index.html directly in a browser'], [
+            'Tailwind is loaded from its CDN; swap it for a build step before shipping to production.'
+        ])
+    };
+};
+
+const buildReact = (source: ExportSource, theme: 'light' | 'dark', brandKit: BrandKit | null): ExportFiles => {
+    const name = toComponentName(source.styleName);
+    const parts = splitArtifactHtml(source.html);
+    const effect = parts.inlineScripts.length
+        ? `  useEffect(() => {\n${indent(parts.inlineScripts.join('\n\n'), 2)}\n  }, []);\n\n`
+        : '';
+    const imports = [
+        parts.inlineScripts.length ? `import { useEffect } from 'react';` : '',
+        parts.styles.length ? `import './${name}.css';` : ''
+    ].filter(Boolean).join('\n');
+
+    const files: ExportFiles = {
+        [`src/${name}.tsx`]: `${imports ? imports + '\n\n' : ''}export default function ${name}() {\n${effect}  return (\n${htmlToJsx(parts.markup, 2)}\n  );\n}\n`,
+        'src/main.tsx': `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import ${name} from './${name}';
+import './index.css';
+
+createRoot(document.getElementById('app')!).render(
+  <StrictMode>
+    <${name} />
+  </StrictMode>
+);
+`,
+        'src/index.css': BASE_CSS,
+        'index.html': indexHtml(source.styleName, theme, brandKit, '/src/main.tsx', parts.externalScripts),
+        'vite.config.ts': `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+        'tsconfig.json': JSON.stringify({
+            compilerOptions: {
+                target: 'ES2022', module: 'ESNext', moduleResolution: 'bundler', jsx: 'react-jsx',
+                strict: true, skipLibCheck: true, noEmit: true, lib: ['ES2022', 'DOM', 'DOM.Iterable']
+            },
+            include: ['src']
+        }, null, 2) + '\n',
+        'tailwind.config.js': tailwindConfig(brandKit),
+        'postcss.config.js': POSTCSS_CONFIG,
+        'package.json': packageJson(slugify(source.styleName), {
+            dependencies: { react: '^19.0.0', 'react-dom': '^19.0.0' },
+            devDependencies: {
+                ...TAILWIND_DEV_DEPS,
+                '@types/react': '^19.0.0',
+                '@types/react-dom': '^19.0.0',
+                '@vitejs/plugin-react': '^5.0.0',
+                typescript: '~5.8.2'
+            }
+        }),
+        'README.md': readme(source, 'React component', ['npm install', 'npm run dev'], [
+            `The component lives in \`src/${name}.tsx\`.`,
+            ...FRAMEWORK_NOTES,
+            ...scriptsNote(parts.inlineScripts.length, 'useEffect')
+        ])
+    };
+    if (parts.styles.length) files[`src/${name}.css`] = parts.styles.join('\n\n') + '\n';
+    return files;
+};
+
+const buildVue = (source: ExportSource, theme: 'light' | 'dark', brandKit: BrandKit | null): ExportFiles => {
+    const name = toComponentName(source.styleName);
+    const parts = splitArtifactHtml(source.html);
+    const script = parts.inlineScripts.length
+        ? `<script setup>\nimport { onMounted } from 'vue';\n\nonMounted(() => {\n${indent(parts.inlineScripts.join('\n\n'), 1)}\n});\n</script>\n\n`
+        : '';
+    const style = parts.styles.length ? `\n<style>\n${parts.styles.join('\n\n')}\n</style>\n` : '';
+
+    return {
+        [`src/${name}.vue`]: `${script}<template>\n${indent(escapeTemplateBraces(parts.markup), 1)}\n</template>\n${style}`,
+        'src/main.ts': `import { createApp } from 'vue';
+import ${name} from './${name}.vue';
+import './index.css';
+
+createApp(${name}).mount('#app');
+`,
+        'src/index.css': BASE_CSS,
+        'src/env.d.ts': `/// <reference types="vite/client" />\n`,
+        'index.html': indexHtml(source.styleName, theme, brandKit, '/src/main.ts', parts.externalScripts),
+        'vite.config.ts': `import { defineConfig } from 'vite';
+import vue from '@vitejs/plugin-vue';
+
+export default defineConfig({
+  plugins: [vue()],
+});
+`,
+        'tailwind.config.js': tailwindConfig(brandKit),
+        'postcss.config.js': POSTCSS_CONFIG,
+        'package.json': packageJson(slugify(source.styleName), {
+            dependencies: { vue: '^3.5.13' },
+            devDependencies: { ...TAILWIND_DEV_DEPS, '@vitejs/plugin-vue': '^5.2.1', typescript: '~5.8.2' }
+        }),
+        'README.md': readme(source, 'Vue single-file component', ['npm install', 'npm run dev'], [
+            `The component lives in \`src/${name}.vue\`.`,
+            ...FRAMEWORK_NOTES,
+            ...scriptsNote(parts.inlineScripts.length, 'onMounted')
+        ])
+    };
+};
+
+const buildSvelte = (source: ExportSource, theme: 'light' | 'dark', brandKit: BrandKit | null): ExportFiles => {
+    const name = toComponentName(source.styleName);
+    const parts = splitArtifactHtml(source.html);
+    const script = parts.inlineScripts.length
+        ? `<script>\n  import { onMount } from 'svelte';\n\n  onMount(() => {\n${indent(parts.inlineScripts.join('\n\n'), 2)}\n  });\n</script>\n\n`
+        : '';
+
+    const files: ExportFiles = {
+        [`src/${name}.svelte`]: `${script}${escapeTemplateBraces(parts.markup)}\n`,
+        'src/main.js': `import { mount } from 'svelte';
+import ${name} from './${name}.svelte';
+import './index.css';${parts.styles.length ? `\nimport './${name}.css';` : ''}
+
+mount(${name}, { target: document.getElementById('app') });
+`,
+        'src/index.css': BASE_CSS,
+        'index.html': indexHtml(source.styleName, theme, brandKit, '/src/main.js', parts.externalScripts),
+        'vite.config.js': `import { defineConfig } from 'vite';
+import { svelte } from '@sveltejs/vite-plugin-svelte';
+
+export default defineConfig({
+  plugins: [svelte()],
+});
+`,
+        'tailwind.config.js': tailwindConfig(brandKit),
+        'postcss.config.js': POSTCSS_CONFIG,
+        'package.json': packageJson(slugify(source.styleName), {
+            devDependencies: { ...TAILWIND_DEV_DEPS, '@sveltejs/vite-plugin-svelte': '^5.0.3', svelte: '^5.19.0' }
+        }),
+        'README.md': readme(source, 'Svelte component', ['npm install', 'npm run dev'], [
+            `The component lives in \`src/${name}.svelte\`.`,
+            ...FRAMEWORK_NOTES,
+            ...scriptsNote(parts.inlineScripts.length, 'onMount')
+        ])
+    };
+    // Svelte scopes <style> blocks, so generated global CSS ships as a plain stylesheet
+    if (parts.styles.length) files[`src/${name}.css`] = parts.styles.join('\n\n') + '\n';
+    return files;
+};
+
+const BUILDERS: Record<ExportTarget, (source: ExportSource, theme: 'light' | 'dark', brandKit: BrandKit | null) => ExportFiles> = {
+    html: buildHtml,
+    react: buildReact,
+    vue: buildVue,
+    svelte: buildSvelte
+};
+
+export const buildExportFiles = (source: ExportSource, target: ExportTarget, theme: 'light' | 'dark', brandKit: BrandKit | null = null) =>
+    BUILDERS[target](source, theme, brandKit);
+
+export const buildExportZip = async (source: ExportSource, target: ExportTarget, theme: 'light' | 'dark', brandKit: BrandKit | null = null) => {
+    const zip = new JSZip();
+    Object.entries(buildExportFiles(source, target, theme, brandKit)).forEach(([path, content]) => zip.file(path, content));
+    return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * Design system export: the catalog page as previewed, plus one folder per
+ * component built for `target` exactly like a single-component export.
+ */
+export const buildComponentSetZip = async (source: ExportSource, target: ExportTarget, theme: 'light' | 'dark', brandKit: BrandKit | null = null) => {
+    const parts = splitComponentSet(source.html);
+    if (parts.length === 0) throw new Error("No components were found in this set. Refine it so each component has its own section.");
+
+    const zip = new JSZip();
+    const targetLabel = EXPORT_TARGETS.find(t => t.id === target)?.label || target;
+    zip.file('catalog.html', wrapInTemplate(source.html, theme, brandKit));
+    zip.file('README.md', `# ${source.styleName} component set
+
+Generated with GenFeatures and exported as **${targetLabel}**.
+
+> ${source.prompt}
+
+Open \`catalog.html\` to see every component together. Each folder is a standalone project:
+
+${parts.map(part => `- \`${slugify(part.label)}/\`: ${part.label}`).join('\n')}
+`);
+    parts.forEach(part => {
+        const files = buildExportFiles({ ...source, id: `${source.id}-${part.id}`, styleName: `${source.styleName} ${part.label}`, html: part.html }, target, theme, brandKit);
+        Object.entries(files).forEach(([path, content]) => zip.file(`${slugify(part.label)}/${path}`, content));
+    });
+    return zip.generateAsync({ type: 'blob' });
+};
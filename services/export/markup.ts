@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ArtifactParts {
+    // Body markup with <script>/<style> removed
+    markup: string;
+    inlineScripts: string[];
+    externalScripts: string[];
+    styles: string[];
+}
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+    class: 'className',
+    for: 'htmlFor',
+    tabindex: 'tabIndex',
+    readonly: 'readOnly',
+    maxlength: 'maxLength',
+    minlength: 'minLength',
+    colspan: 'colSpan',
+    rowspan: 'rowSpan',
+    autocomplete: 'autoComplete',
+    autofocus: 'autoFocus',
+    autoplay: 'autoPlay',
+    contenteditable: 'contentEditable',
+    crossorigin: 'crossOrigin',
+    datetime: 'dateTime',
+    enctype: 'encType',
+    frameborder: 'frameBorder',
+    inputmode: 'inputMode',
+    novalidate: 'noValidate',
+    playsinline: 'playsInline',
+    referrerpolicy: 'referrerPolicy',
+    spellcheck: 'spellCheck',
+    srcset: 'srcSet',
+    usemap: 'useMap',
+    value: 'defaultValue',
+    checked: 'defaultChecked'
+};
+
+const BOOLEAN_ATTRIBUTES = new Set([
+    'allowfullscreen', 'async', 'autofocus', 'autoplay', 'checked', 'controls', 'default', 'defer',
+    'disabled', 'hidden', 'loop', 'multiple', 'muted', 'novalidate', 'open', 'playsinline',
+    'readonly', 'required', 'reversed', 'selected'
+]);
+
+const parseBody = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+/**
+ * Pulls scripts and styles out of generated markup so framework targets can
+ * move them into their own blocks. Inline `on*` handlers are dropped because
+ * none of the framework targets accept string event handlers.
+ */
+export const splitArtifactHtml = (html: string, keepEventHandlers = false): ArtifactParts => {
+    const doc = parseBody(html);
+    const inlineScripts: string[] = [];
+    const externalScripts: string[] = [];
+    const styles: string[] = [];
+
+    doc.querySelectorAll('script').forEach(script => {
+        const src = script.getAttribute('src');
+        if (src) externalScripts.push(src);
+        else if (script.textContent?.trim()) inlineScripts.push(script.textContent.trim());
+        script.remove();
+    });
+    doc.querySelectorAll('style').forEach(style => {
+        if (style.textContent?.trim()) styles.push(style.textContent.trim());
+        style.remove();
+    });
+    if (!keepEventHandlers) {
+        doc.body.querySelectorAll('*').forEach(el => {
+            Array.from(el.attributes)
+                .filter(attr => attr.name.startsWith('on'))
+                .forEach(attr => el.removeAttribute(attr.name));
+        });
+    }
+
+    return { markup: doc.body.innerHTML.trim(), inlineScripts, externalScripts, styles };
+};
+
+export const toComponentName = (styleName: string) => {
+    const name = styleName
+        .replace(/[^a-zA-Z0-9 ]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => word[0].toUpperCase() + word.slice(1))
+        .join('');
+    return /^[A-Z]/.test(name) ? name : 'GeneratedComponent';
+};
+
+const toCamelCase = (value: string) => value.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+
+const jsxAttributeName = (name: string) => {
+    if (JSX_ATTRIBUTE_NAMES[name]) return JSX_ATTRIBUTE_NAMES[name];
+    if (name.startsWith('data-') || name.startsWith('aria-')) return name;
+    if (name.includes(':')) return toCamelCase(name.replace(':', '-'));
+    return toCamelCase(name);
+};
+
+const styleToObject = (style: string) => {
+    const entries = style
+        .split(';')
+        .map(rule => rule.trim())
+        .filter(Boolean)
+        .map(rule => {
+            const idx = rule.indexOf(':');
+            if (idx === -1) return null;
+            const prop = rule.substring(0, idx).trim();
+            const value = rule.substring(idx + 1).trim();
+            const key = prop.startsWith('--') ? JSON.stringify(prop) : toCamelCase(prop);
+            return `${key}: ${JSON.stringify(value)}`;
+        })
+        .filter(Boolean);
+    return `{{ ${entries.join(', ')} }}`;
+};
+
+const jsxAttribute = (el: Element, attr: Attr) => {
+    const name = attr.name;
+    if (name === 'style') return `style=${styleToObject(attr.value)}`;
+    const jsxName = jsxAttributeName(name);
+    if (BOOLEAN_ATTRIBUTES.has(name) && (attr.value === '' || attr.value === name)) return jsxName;
+    // Only form controls treat value/checked/selected as an initial state
+    if (jsxName.startsWith('default') && !['input', 'textarea', 'select'].includes(el.localName)) {
+        return `${name}=${JSON.stringify(attr.value)}`;
+    }
+    return attr.value.includes('"') ? `${jsxName}={${JSON.stringify(attr.value)}}` : `${jsxName}="${attr.value}"`;
+};
+
+const jsxText = (text: string) => /[{}<>]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+
+const serializeJsx = (node: Node, depth: number): string[] => {
+    const pad = '  '.repeat(depth);
+
+    if (node.nodeType === Node.TEXT_NODE) {
+        const raw = node.textContent || '';
+        const text = raw.replace(/\s+/g, ' ');
+        if (!text.trim()) return [];
+        // Keep the space that separated this text from neighbouring inline elements
+        const lead = /^\s/.test(text) && node.previousSibling ? '{" "}' : '';
+        const trail = /\s$/.test(text) && node.nextSibling ? '{" "}' : '';
+        return [`${pad}${lead}${jsxText(text.trim())}${trail}`];
+    }
+
+    if (node.nodeType === Node.COMMENT_NODE) {
+        const text = (node.textContent || '').trim().replace(/\*\//g, '* /');
+        return text ? [`${pad}{/* ${text} */}`] : [];
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+    const el = node as Element;
+    const tag = el.localName;
+    const attrs = Array.from(el.attributes).map(attr => jsxAttribute(el, attr));
+
+    if (tag === 'textarea' && el.textContent) {
+        attrs.push(`defaultValue={${JSON.stringify(el.textContent)}}`);
+    }
+
+    const open = attrs.length ? `<${tag} ${attrs.join(' ')}` : `<${tag}`;
+    const children = tag === 'textarea' ? [] : Array.from(el.childNodes).flatMap(child => serializeJsx(child, depth + 1));
+
+    if (VOID_ELEMENTS.has(tag) || children.length === 0) return [`${pad}${open} />`];
+    if (children.length === 1 && el.childNodes.length === 1 && el.firstChild?.nodeType === Node.TEXT_NODE) {
+        return [`${pad}${open}>${children[0].trim()}</${tag}>`];
+    }
+    return [`${pad}${open}>`, ...children, `${pad}</${tag}>`];
+};
+
+/** Converts HTML markup into JSX, returning a single root (a fragment when needed). */
+export const htmlToJsx = (markup: string, depth: number) => {
+    const doc = parseBody(markup);
+    const roots = Array.from(doc.body.childNodes).filter(n =>
+        n.nodeType === Node.ELEMENT_NODE || (n.nodeType === Node.TEXT_NODE && n.textContent?.trim())
+    );
+    const pad = '  '.repeat(depth);
+    if (roots.length === 1 && roots[0].nodeType === Node.ELEMENT_NODE) {
+        return serializeJsx(roots[0], depth).join('\n');
+    }
+    const lines = Array.from(doc.body.childNodes).flatMap(n => serializeJsx(n, depth + 1));
+    return [`${pad}<>`, ...lines, `${pad}</>`].join('\n');
+};
+
+/** Escapes template syntax so Vue and Svelte render braces in text literally. */
+export const escapeTemplateBraces = (markup: string) =>
+    markup.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { formatHtml } from './htmlTools.ts';
+
+describe('formatHtml', () => {
+    it('puts one element per line', () => {
+        expect(formatHtml('<div><p>Hi</p><img src="a.png"></div>')).toBe('<div>\n  <p>Hi</p>\n  <img src="a.png">\n</div>');
+    });
+
+    it('keeps a > inside quoted attribute values in the tag', () => {
+        const html = `<div x-show="count > 0" onclick='go(a > b)'><span>Hi</span></div>`;
+        expect(formatHtml(html)).toBe(`<div x-show="count > 0" onclick='go(a > b)'>\n  <span>Hi</span>\n</div>`);
+    });
+
+    it('treats a quote outside an attribute value as text', () => {
+        expect(formatHtml(`<p data-x=don't>Hi</p>`)).toBe(`<p data-x=don't>Hi</p>`);
+    });
+
+    it('keeps script bodies verbatim', () => {
+        expect(formatHtml('<div><script>if (a > b) { go(); }</script></div>')).toBe('<div>\n  <script>\nif (a > b) { go(); }\n  </script>\n</div>');
+    });
+});
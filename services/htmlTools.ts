@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const TOKEN_PATTERN = /(<!--[\s\S]*?(?:-->|$))|(<\/?)([a-zA-Z][\w:.-]*)([^>]*?)(\/?>|$)|([^<]+|<)/g;
+const ATTRIBUTE_PATTERN = /([^\s=/]+)(\s*=\s*)?("[^"]*"?|'[^']*'?|[^\s"'>]+)?/g;
+
+const highlightAttributes = (attrs: string) =>
+    attrs.replace(ATTRIBUTE_PATTERN, (match, name: string, eq?: string, value?: string) => {
+        if (!name) return escapeHtml(match);
+        let out = `<span class="tok-attr">${escapeHtml(name)}</span>`;
+        if (eq) out += escapeHtml(eq);
+        if (value) out += `<span class="tok-value">${escapeHtml(value)}</span>`;
+        return out;
+    });
+
+const RAW_BLOCK_PATTERN = /(<(?:script|style)\b[^>]*>)([\s\S]*?)(?=<\/(?:script|style)\s*>|$)/gi;
+
+const highlightMarkup = (code: string) =>
+    code.replace(TOKEN_PATTERN, (match, comment?: string, open?: string, tag?: string, attrs?: string, close?: string, text?: string) => {
+        if (comment) return `<span class="tok-comment">${escapeHtml(comment)}</span>`;
+        if (tag) {
+            return `<span class="tok-punct">${escapeHtml(open!)}</span>` +
+                `<span class="tok-tag">${escapeHtml(tag)}</span>` +
+                highlightAttributes(attrs || '') +
+                `<span class="tok-punct">${escapeHtml(close || '')}</span>`;
+        }
+        return escapeHtml(text ?? match);
+    });
+
+/**
+ * Returns markup with `tok-*` spans for the editor's highlight layer. Script
+ * and style bodies are escaped but not tokenized.
+ */
+export const highlightHtml = (code: string) => {
+    let out = '';
+    let last = 0;
+    for (const match of code.matchAll(RAW_BLOCK_PATTERN)) {
+        out += highlightMarkup(code.substring(last, match.index) + match[1]);
+        out += `<span class="tok-raw">${escapeHtml(match[2])}</span>`;
+        last = match.index! + match[0].length;
+    }
+    return out + highlightMarkup(code.substring(last));
+};
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TAGS = new Set(['script', 'style', 'pre', 'textarea']);
+
+// Index of the `>` that ends the tag opened at `start`, or -1. A `>` inside a
+// quoted attribute value (x-show="a > b", inline handlers) doesn't count.
+const findTagEnd = (html: string, start: number) => {
+    let quote = '';
+    let previous = '';
+    for (let i = start + 1; i < html.length; i++) {
+        const ch = html[i];
+        if (quote) {
+            if (ch === quote) quote = '';
+        } else if ((ch === '"' || ch === "'") && previous === '=') {
+            quote = ch;
+        } else if (ch === '>') {
+            return i;
+        }
+        if (!/\s/.test(ch)) previous = ch;
+    }
+    return -1;
+};
+
+/**
+ * Re-indents markup one element per line. Content of script, style, pre and
+ * textarea is kept verbatim.
+ */
+export const formatHtml = (html: string, indentUnit = '  ') => {
+    const lines: string[] = [];
+    let depth = 0;
+    let i = 0;
+
+    const push = (line: string) => lines.push(indentUnit.repeat(Math.max(depth, 0)) + line);
+
+    while (i < html.length) {
+        if (html.startsWith('<!--', i)) {
+            const end = html.indexOf('-->', i);
+            const stop = end === -1 ? html.length : end + 3;
+            push(html.substring(i, stop).trim());
+            i = stop;
+            continue;
+        }
+
+        if (html[i] === '<') {
+            const end = findTagEnd(html, i);
+            if (end === -1) {
+                push(html.substring(i).trim());
+                break;
+            }
+            const tagText = html.substring(i, end + 1);
+            const match = tagText.match(/^<\/?\s*([a-zA-Z][\w:.-]*)/);
+            const name = match?.[1].toLowerCase() || '';
+            const isClosing = tagText.startsWith('</');
+            const isSelfClosing = tagText.endsWith('/>') || VOID_TAGS.has(name) || tagText.startsWith('<!');
+            i = end + 1;
+
+            if (isClosing) {
+                depth--;
+                push(tagText);
+                continue;
+            }
+
+            if (!isSelfClosing && !RAW_TAGS.has(name)) {
+                // Keep elements that only wrap a short run of text on one line.
+                const next = html.indexOf('<', i);
+                if (next !== -1 && html.substring(next, next + name.length + 2).toLowerCase() === `</${name}`) {
+                    const closeEnd = html.indexOf('>', next);
+                    const text = html.substring(i, next).replace(/\s+/g, ' ').trim();
+                    if (closeEnd !== -1 && text.length <= 80) {
+                        push(tagText + text + html.substring(next, closeEnd + 1));
+                        i = closeEnd + 1;
+                        continue;
+                    }
+                }
+            }
+
+            push(tagText);
+            if (isSelfClosing) continue;
+
+            if (RAW_TAGS.has(name)) {
+                const closeIdx = html.toLowerCase().indexOf(`</${name}`, i);
+                const stop = closeIdx === -1 ? html.length : closeIdx;
+                const raw = html.substring(i, stop);
+                if (raw.trim()) lines.push(raw.replace(/^\n+|\s+$/g, ''));
+                const closeEnd = closeIdx === -1 ? -1 : html.indexOf('>', closeIdx);
+                if (closeEnd !== -1) push(html.substring(closeIdx, closeEnd + 1));
+                i = closeEnd === -1 ? html.length : closeEnd + 1;
+                continue;
+            }
+            depth++;
+            continue;
+        }
+
+        const next = html.indexOf('<', i);
+        const stop = next === -1 ? html.length : next;
+        const text = html.substring(i, stop).replace(/\s+/g, ' ').trim();
+        if (text) push(text);
+        i = stop;
+    }
+
+    return lines.join('\n');
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Reading and merging the versioned JSON files the vault and prompt library
+ * export. Each file is tagged with a format name and version, and lists its
+ * items under one key.
+ */
+
+export interface ExportFormat {
+    format: string;
+    version: number;
+    // Key of the array every valid file has
+    listKey: string;
+    // What the file is called in errors, e.g. "vault export"
+    label: string;
+}
+
+export const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+/** Parses an export of `expected`'s format. Throws an error naming the file on anything else. */
+export const parseVersionedExport = (text: string, fileName: string, expected: ExportFormat): Record<string, any> & { version: number } => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error(`${fileName} is not valid JSON.`);
+    }
+    if (!isRecord(parsed) || parsed.format !== expected.format || !Array.isArray(parsed[expected.listKey])) {
+        throw new Error(`${fileName} is not a GenFeatures ${expected.label}.`);
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > expected.version) {
+        throw new Error(`${fileName} was exported by a newer version of GenFeatures.`);
+    }
+    return parsed as Record<string, any> & { version: number };
+};
+
+/**
+ * The imported items whose id isn't in `current` yet. Ones already present
+ * are kept as they are, so importing the same file twice is harmless.
+ */
+export const newItems = <T extends { id: string }>(current: T[], incoming: T[]) => {
+    const ids = new Set(current.map(item => item.id));
+    return incoming.filter(item => !ids.has(item.id));
+};
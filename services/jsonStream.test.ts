@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { JsonObjectStream, parseJsonStream, readPartialFields } from './jsonStream.ts';
+
+const pushAll = (chunks: string[]) => {
+    const parser = new JsonObjectStream();
+    return chunks.flatMap(chunk => parser.push(chunk));
+};
+
+// Feeds the text one character at a time, the worst case for chunk splits
+const pushByChar = (text: string) => pushAll(Array.from(text));
+
+const first = { name: 'Glass', html: '<div class="a">Hi</div>' };
+const second = { name: 'Brutal', html: '<section>Yo</section>' };
+const line = (value: unknown) => JSON.stringify(value);
+
+describe('JsonObjectStream', () => {
+    it('reads NDJSON', () => {
+        expect(pushAll([`${line(first)}\n${line(second)}\n`])).toEqual([first, second]);
+    });
+
+    it('reads a JSON array', () => {
+        expect(pushAll([JSON.stringify([first, second], null, 2)])).toEqual([first, second]);
+    });
+
+    it('skips prose and markdown fences around the objects', () => {
+        const text = `Here are your designs:\n\`\`\`json\n${line(first)}\n${line(second)}\n\`\`\`\nEnjoy!`;
+        expect(pushAll([text])).toEqual([first, second]);
+    });
+
+    it('ignores braces inside string values', () => {
+        const tricky = {
+            name: 'Scripted',
+            html: '<style>.a { color: red; } .b {}</style><script>if (x) { y({}); }</script><div data-config=\'{"open":true}\'>}}{</div>'
+        };
+        expect(pushAll([`${line(tricky)}\n${line(second)}`])).toEqual([tricky, second]);
+    });
+
+    it('handles escaped quotes, backslashes and unicode escapes', () => {
+        const escaped = { name: 'Quote "this" \\ {', html: '<p title="a\\"}">é ☃</p>' };
+        const text = JSON.stringify(escaped).replace('é', '\\u00e9');
+        expect(pushAll([text])).toEqual([escaped]);
+    });
+
+    it('survives every possible chunk split', () => {
+        const tricky = { name: 'Split', html: '<style>a { b: "}" }</style>\\"{' };
+        const text = `prose {\n${line(tricky)}\n${line(second)}`;
+        expect(pushByChar(text)).toEqual([tricky, second]);
+    });
+
+    it('recovers from an unmatched brace in leading prose', () => {
+        expect(pushAll(['prose with { unbalanced brace then ', line(first), '\n', line(second)])).toEqual([first, second]);
+    });
+
+    it('recovers from a stray brace that starts like an object', () => {
+        const text = `Each line opens with {"name": and then the rest:\n${line(first)}\n${line(second)}`;
+        expect(pushAll([text])).toEqual([first, second]);
+        expect(pushByChar(text)).toEqual([first, second]);
+    });
+
+    it('drops a balanced candidate that is not valid JSON', () => {
+        expect(pushAll([`{"name": tru}\n${line(first)}`])).toEqual([first]);
+    });
+
+    it('keeps nested objects and arrays whole', () => {
+        const nested = { name: 'Nested', meta: { tags: ['a', '}'], depth: [1, [2, { x: null }]] }, ok: true, n: -1.5e3 };
+        expect(pushAll([line(nested)])).toEqual([nested]);
+    });
+
+    it('exposes the object in progress', () => {
+        const parser = new JsonObjectStream();
+        expect(parser.push('{"name": "Glass", "html": "<div>{par')).toEqual([]);
+        expect(parser.partial()).toEqual({ name: 'Glass', html: '<div>{par' });
+        expect(parser.push('tial}</div>"}')).toEqual([{ name: 'Glass', html: '<div>{partial}</div>' }]);
+        expect(parser.partial()).toBeNull();
+    });
+});
+
+describe('readPartialFields', () => {
+    it('decodes a string cut off mid-escape', () => {
+        expect(readPartialFields('{"html": "<p class=\\"a\\')).toEqual({ html: '<p class="a' });
+        expect(readPartialFields('{"html": "caf\\u00')).toEqual({ html: 'caf' });
+    });
+
+    it('skips non-string fields', () => {
+        expect(readPartialFields('{"n": 3, "meta": {"a": "}"}, "html": "<b>')).toEqual({ html: '<b>' });
+    });
+});
+
+describe('parseJsonStream', () => {
+    it('interleaves partial snapshots with finished objects', async () => {
+        async function* chunks() {
+            yield { text: '{"name": "Glass", "html": "<di' };
+            yield { text: 'v></div>"}\n' };
+        }
+        const events = [];
+        for await (const event of parseJsonStream(chunks())) events.push(event);
+        expect(events).toEqual([
+            { type: 'partial', value: { name: 'Glass', html: '<di' } },
+            { type: 'object', value: { name: 'Glass', html: '<div></div>' } }
+        ]);
+    });
+});
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Incremental parser for model output that contains a sequence of JSON
+ * objects: NDJSON, a JSON array, or objects surrounded by prose or code
+ * fences. Object boundaries are found by a tokenizer that tracks string and
+ * escape state, so braces inside string values (inline JS, CSS blocks,
+ * JSON in attributes) don't split objects. It also follows the JSON grammar,
+ * so a brace in prose that doesn't start an object is dropped as soon as the
+ * text after it stops looking like JSON, instead of swallowing what follows.
+ */
+
+export type PartialFields = Record<string, string>;
+
+export type JsonStreamEvent<T> =
+    | { type: 'object'; value: T }
+    | { type: 'partial'; value: PartialFields };
+
+interface DecodedString {
+    value: string;
+    end: number;
+    complete: boolean;
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+};
+
+// Decodes the JSON string starting at the opening quote at `start`. A string
+// cut off mid-stream (or mid-escape) yields what has been decoded so far.
+const decodeString = (text: string, start: number): DecodedString => {
+    let value = '';
+    let i = start + 1;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"') return { value, end: i + 1, complete: true };
+        if (ch !== '\\') {
+            value += ch;
+            i++;
+            continue;
+        }
+        const next = text[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = text.substring(i + 2, i + 6);
+            if (hex.length < 4) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 6;
+        } else {
+            value += SIMPLE_ESCAPES[next] ?? next;
+            i += 2;
+        }
+    }
+    return { value, end: text.length, complete: false };
+};
+
+// Skips a non-string value (number, literal, nested object/array) and returns
+// the index just past it, or -1 if the value is still incomplete.
+const skipValue = (text: string, start: number) => {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') depth++;
+        else if (ch === '}' || ch === ']') {
+            if (depth === 0) return i;
+            depth--;
+        } else if (ch === ',' && depth === 0) return i;
+    }
+    return -1;
+};
+
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t';
+
+/**
+ * Reads the top-level string fields of a possibly truncated JSON object.
+ * The last field may be partial, which is what lets a card render its html
+ * while it is still streaming.
+ */
+export const readPartialFields = (text: string): PartialFields => {
+    const fields: PartialFields = {};
+    let i = text.indexOf('{');
+    if (i === -1) return fields;
+    i++;
+
+    while (i < text.length) {
+        while (i < text.length && (isWhitespace(text[i]) || text[i] === ',')) i++;
+        if (i >= text.length || text[i] === '}' || text[i] !== '"') return fields;
+
+        const key = decodeString(text, i);
+        if (!key.complete) return fields;
+        i = key.end;
+
+        while (i < text.length && isWhitespace(text[i])) i++;
+        if (text[i] !== ':') return fields;
+        i++;
+        while (i < text.length && isWhitespace(text[i])) i++;
+        if (i >= text.length) return fields;
+
+        if (text[i] === '"') {
+            const value = decodeString(text, i);
+            fields[key.value] = value.value;
+            if (!value.complete) return fields;
+            i = value.end;
+        } else {
+            const end = skipValue(text, i);
+            if (end === -1) return fields;
+            i = end;
+        }
+    }
+    return fields;
+};
+
+// What the tokenizer accepts next inside a candidate object
+type Expect = 'key-or-end' | 'key' | 'colon' | 'value' | 'value-or-end' | 'comma-or-end';
+
+// Characters that can make up a number or true/false/null
+const LITERAL_CHAR = /[\w.+-]/;
+
+export class JsonObjectStream<T = unknown> {
+    private buffer = '';
+    private pos = 0;
+    private start = -1;
+    // Open objects and arrays of the candidate, innermost last
+    private containers: ('{' | '[')[] = [];
+    private expect: Expect = 'key-or-end';
+    private inString = false;
+    private stringIsKey = false;
+    private escaped = false;
+    private inLiteral = false;
+
+    /** Feeds more text and returns every object completed by it. */
+    push(text: string): T[] {
+        this.buffer += text;
+        const objects: T[] = [];
+
+        while (this.pos < this.buffer.length) {
+            const ch = this.buffer[this.pos];
+
+            if (this.start === -1) {
+                // Between objects only an opening brace matters; prose, fences,
+                // array brackets and commas are skipped.
+                if (ch === '{') this.open(this.pos);
+                this.pos++;
+                continue;
+            }
+
+            if (this.inString) {
+                if (this.escaped) this.escaped = false;
+                else if (ch === '\\') this.escaped = true;
+                else if (ch === '"') {
+                    this.inString = false;
+                    this.expect = this.stringIsKey ? 'colon' : 'comma-or-end';
+                }
+                this.pos++;
+                continue;
+            }
+
+            if (this.inLiteral) {
+                if (LITERAL_CHAR.test(ch)) {
+                    this.pos++;
+                    continue;
+                }
+                this.inLiteral = false;
+                this.expect = 'comma-or-end';
+            }
+
+            const result = this.step(ch);
+            if (result === 'invalid') {
+                // Not JSON (e.g. a stray brace in prose), so this candidate can
+                // never close; rescan from just after its opening brace
+                this.pos = this.start + 1;
+                this.start = -1;
+                continue;
+            }
+            if (result === 'closed') {
+                const candidate = this.buffer.substring(this.start, this.pos + 1);
+                try {
+                    objects.push(JSON.parse(candidate));
+                    this.buffer = this.buffer.substring(this.pos + 1);
+                    this.pos = 0;
+                } catch (e) {
+                    // Well formed but not valid, e.g. a bad literal
+                    this.pos = this.start + 1;
+                }
+                this.start = -1;
+                continue;
+            }
+            this.pos++;
+        }
+
+        // Nothing before an unfinished object can matter any more
+        if (this.start === -1) {
+            this.buffer = '';
+            this.pos = 0;
+        }
+        return objects;
+    }
+
+    /** Top-level string fields of the object currently being streamed, if any. */
+    partial(): PartialFields | null {
+        if (this.start === -1) return null;
+        return readPartialFields(this.buffer.substring(this.start));
+    }
+
+    private open(at: number) {
+        this.start = at;
+        this.containers = ['{'];
+        this.expect = 'key-or-end';
+        this.inString = false;
+        this.escaped = false;
+        this.inLiteral = false;
+    }
+
+    // Advances the grammar by one character outside strings and literals
+    private step(ch: string): 'ok' | 'invalid' | 'closed' {
+        if (isWhitespace(ch)) return 'ok';
+        const top = this.containers[this.containers.length - 1];
+
+        switch (this.expect) {
+            case 'key-or-end':
+            case 'key':
+                if (ch === '"') {
+                    this.inString = true;
+                    this.stringIsKey = true;
+                    return 'ok';
+                }
+                return ch === '}' && this.expect === 'key-or-end' ? this.close() : 'invalid';
+            case 'colon':
+                if (ch !== ':') return 'invalid';
+                this.expect = 'value';
+                return 'ok';
+            case 'value':
+            case 'value-or-end':
+                if (ch === ']' && this.expect === 'value-or-end') return this.close();
+                if (ch === '"') {
+                    this.inString = true;
+                    this.stringIsKey = false;
+                } else if (ch === '{') {
+                    this.containers.push('{');
+                    this.expect = 'key-or-end';
+                } else if (ch === '[') {
+                    this.containers.push('[');
+                    this.expect = 'value-or-end';
+                } else if (/[-\dtfn]/.test(ch)) {
+                    this.inLiteral = true;
+                } else {
+                    return 'invalid';
+                }
+                return 'ok';
+            case 'comma-or-end':
+                if (ch === ',') {
+                    this.expect = top === '{' ? 'key' : 'value';
+                    return 'ok';
+                }
+                if ((ch === '}' && top === '{') || (ch === ']' && top === '[')) return this.close();
+                return 'invalid';
+        }
+    }
+
+    private close(): 'ok' | 'closed' {
+        this.containers.pop();
+        this.expect = 'comma-or-end';
+        return this.containers.length === 0 ? 'closed' : 'ok';
+    }
+}
+
+/**
+ * Adapts a text stream into object events, interleaved with partial field
+ * snapshots of the object in progress.
+ */
+export async function* parseJsonStream<T = unknown>(
+    responseStream: AsyncIterable<{ text: string }>
+): AsyncGenerator<JsonStreamEvent<T>> {
+    const parser = new JsonObjectStream<T>();
+    for await (const chunk of responseStream) {
+        if (typeof chunk.text !== 'string') continue;
+        for (const value of parser.push(chunk.text)) {
+            yield { type: 'object', value };
+        }
+        const partial = parser.partial();
+        if (partial) yield { type: 'partial', value: partial };
+    }
+}
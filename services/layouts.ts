@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LayoutOption } from '../types.ts';
+
+export const LAYOUT_SLOT_ATTRIBUTE = 'data-layout-slot';
+
+export const LAYOUT_KINDS = ['Sidebar', 'Split', 'Card grid', 'Single column'];
+
+// The artifact's own markup sits between these, so a layout can be swapped or removed without touching it
+const CONTENT_START = '<!-- layout-content:start -->';
+const CONTENT_END = '<!-- layout-content:end -->';
+// Enough of the artifact for the model to see what it is laying out
+const MAX_CONTEXT_CHARS = 6000;
+
+// An empty slot element, either <div data-layout-slot></div> or self-closing
+const SLOT_PATTERN = new RegExp(`<\\w+[^>]*\\b${LAYOUT_SLOT_ATTRIBUTE}\\b[^>]*/>|<(\\w+)[^>]*\\b${LAYOUT_SLOT_ATTRIBUTE}\\b[^>]*>\\s*</\\1>`);
+
+export const buildLayoutPrompt = (prompt: string, html: string) => `
+Here is a UI component generated for: "${prompt}".
+
+${html.length > MAX_CONTEXT_CHARS ? `${html.slice(0, MAX_CONTEXT_CHARS)}\n<!-- truncated -->` : html}
+
+Design ${LAYOUT_KINDS.length} alternative page layouts to place this component in, one of each: ${LAYOUT_KINDS.join(', ')}.
+Keep the component itself unchanged. Each layout is the surrounding structure only (navigation, sidebars, columns, supporting cards) in the same visual style.
+Mark where the component goes with exactly one EMPTY element: <div ${LAYOUT_SLOT_ATTRIBUTE}></div>
+Ensure all layouts adapt to both Light and Dark modes using Tailwind classes.
+Required JSON Output Format (stream ONE object per line):
+\`{ "name": "Layout name", "css": "extra CSS or empty string", "previewHtml": "<div>...<div ${LAYOUT_SLOT_ATTRIBUTE}></div>...</div>" }\`
+`.trim();
+
+export const isLayoutOption = (value: unknown): value is LayoutOption => {
+    const option = value as Partial<LayoutOption> | null;
+    return !!option && typeof option.name === 'string' && typeof option.previewHtml === 'string' &&
+        SLOT_PATTERN.test(option.previewHtml);
+};
+
+/** The artifact's own markup, with any layout previously applied around it removed. */
+export const unwrapLayout = (html: string) => {
+    const start = html.indexOf(CONTENT_START);
+    const end = html.lastIndexOf(CONTENT_END);
+    if (start === -1 || end < start) return html;
+    return html.slice(start + CONTENT_START.length, end).replace(/^\n/, '').replace(/\n$/, '');
+};
+
+/** Places `html` in the layout's slot, replacing whatever layout it was in before. */
+export const applyLayout = (option: LayoutOption, html: string) => {
+    const content = `${CONTENT_START}\n${unwrapLayout(html)}\n${CONTENT_END}`;
+    // Function replacers, so `$` sequences in the artifact are left alone
+    const markup = option.previewHtml.replace(SLOT_PATTERN, (slot, tag?: string) => tag
+        ? slot.replace(/>\s*<\/\w+>$/, () => `>${content}</${tag}>`)
+        : slot.replace(/\s*\/>$/, () => `>${content}</div>`));
+    const style = option.css?.trim() ? `\n${option.css.trim()}` : '';
+    return `<div data-layout="${option.name.replace(/"/g, '&quot;')}" class="w-full">
+<style>body:has(> [data-layout]) { display: block; padding: 0; }${style}</style>
+${markup}
+</div>`;
+};
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Links look like https://host/#share=<base64url(deflate(json))>. The fragment is
+// never sent to a server, so shared components stay between the two browsers.
+const FRAGMENT_KEY = 'share';
+const PAYLOAD_VERSION = 1;
+
+// Browsers and chat apps start truncating URLs somewhere past this
+export const MAX_LINK_LENGTH = 64 * 1024;
+
+export interface SharedArtifact {
+    styleName: string;
+    prompt: string;
+    html: string;
+}
+
+interface SharedPayload extends SharedArtifact {
+    v: number;
+}
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) => {
+    const stream = new Blob([bytes]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const isSharingSupported = () => typeof CompressionStream !== 'undefined';
+
+/** Builds a link to the current page that opens `artifact` read-only. */
+export const buildShareLink = async (artifact: SharedArtifact) => {
+    const payload: SharedPayload = { v: PAYLOAD_VERSION, styleName: artifact.styleName, prompt: artifact.prompt, html: artifact.html };
+    const compressed = await pipeThrough(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+    const url = new URL(window.location.href);
+    url.hash = `${FRAGMENT_KEY}=${toBase64Url(compressed)}`;
+    return url.toString();
+};
+
+/**
+ * Decodes a shared artifact from a location hash. Returns null when the hash
+ * isn't a share link and throws when it is one but can't be read.
+ */
+export const readShareFragment = async (hash: string): Promise<SharedArtifact | null> => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const encoded = params.get(FRAGMENT_KEY);
+    if (!encoded) return null;
+
+    let payload: Partial<SharedPayload>;
+    try {
+        const json = await pipeThrough(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+        payload = JSON.parse(new TextDecoder().decode(json));
+    } catch {
+        throw new Error("This share link is damaged or incomplete.");
+    }
+    if (typeof payload.v !== 'number' || payload.v > PAYLOAD_VERSION) {
+        throw new Error("This share link was created by a newer version of GenFeatures.");
+    }
+    if (typeof payload.html !== 'string') {
+        throw new Error("This share link doesn't contain a component.");
+    }
+    return {
+        styleName: typeof payload.styleName === 'string' ? payload.styleName : 'Shared',
+        prompt: typeof payload.prompt === 'string' ? payload.prompt : '',
+        html: payload.html
+    };
+};
+
+/** Drops the share fragment from the address bar without adding a history entry. */
+export const clearShareFragment = () => {
+    if (!window.location.hash) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PromptTemplate } from '../types.ts';
+import { generateId } from '../utils.ts';
+import { ExportFormat, isRecord, newItems, parseVersionedExport } from './jsonExport.ts';
+
+const PROMPTS_STORAGE_KEY = 'genfeatures_prompts';
+const EXPORT_FORMAT = 'genfeatures-prompts';
+const EXPORT_VERSION = 1;
+const LIBRARY_FORMAT: ExportFormat = { format: EXPORT_FORMAT, version: EXPORT_VERSION, listKey: 'templates', label: 'prompt library' };
+
+export const DEFAULT_CATEGORY = 'General';
+
+// {{name}}, with optional spaces inside the braces
+const VARIABLE_PATTERN = /\{\{\s*([\w][\w -]*?)\s*\}\}/g;
+
+export interface PromptLibraryExport {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: number;
+    templates: PromptTemplate[];
+}
+
+export interface PromptImportResult {
+    templates: PromptTemplate[];
+    added: number;
+    skipped: number;
+}
+
+export const createPromptTemplate = (name: string, text: string, category = DEFAULT_CATEGORY): PromptTemplate => ({
+    id: generateId(),
+    name,
+    category,
+    text,
+    createdAt: Date.now()
+});
+
+/** Variable names in the order they first appear, without duplicates. */
+export const extractVariables = (text: string) =>
+    Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), m => m[1])));
+
+/** Replaces each {{variable}}; ones without a value are left as they are. */
+export const fillTemplate = (text: string, values: Record<string, string>) =>
+    text.replace(VARIABLE_PATTERN, (match, name: string) => values[name]?.trim() || match);
+
+export const promptCategories = (templates: PromptTemplate[]) =>
+    Array.from(new Set(templates.map(t => t.category))).sort((a, b) => a.localeCompare(b));
+
+export const matchesPromptQuery = (template: PromptTemplate, query: string) => {
+    const q = query.toLowerCase();
+    return [template.name, template.category, template.text].some(field => field.toLowerCase().includes(q));
+};
+
+const normalizeTemplate = (raw: unknown): PromptTemplate | null => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.text !== 'string' || !raw.text.trim()) return null;
+    return {
+        id: raw.id,
+        text: raw.text,
+        name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : raw.text.slice(0, 40),
+        category: typeof raw.category === 'string' && raw.category.trim() ? raw.category : DEFAULT_CATEGORY,
+        createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now()
+    };
+};
+
+export const exportPromptLibrary = (templates: PromptTemplate[]) => {
+    const data: PromptLibraryExport = { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: Date.now(), templates };
+    return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+};
+
+/** Reads a prompt library export. Throws on anything else. */
+export const readPromptLibraryFile = async (file: File): Promise<PromptTemplate[]> => {
+    const parsed = parseVersionedExport(await file.text(), file.name, LIBRARY_FORMAT);
+    return parsed.templates.map(normalizeTemplate).filter((t: PromptTemplate | null): t is PromptTemplate => t !== null);
+};
+
+/** Adds imported templates to the library, skipping ids it already has. */
+export const mergePromptImport = (current: PromptTemplate[], incoming: PromptTemplate[]): PromptImportResult => {
+    const added = newItems(current, incoming);
+    return { templates: [...current, ...added], added: added.length, skipped: incoming.length - added.length };
+};
+
+export const loadPromptLibrary = (): PromptTemplate[] => {
+    const saved = localStorage.getItem(PROMPTS_STORAGE_KEY);
+    if (!saved) return [];
+    try {
+        const parsed = JSON.parse(saved);
+        return Array.isArray(parsed)
+            ? parsed.map(normalizeTemplate).filter((t): t is PromptTemplate => t !== null)
+            : [];
+    } catch (e) {
+        console.error("Failed to parse prompt library", e);
+        return [];
+    }
+};
+
+export const savePromptLibrary = (templates: PromptTemplate[]) => {
+    localStorage.setItem(PROMPTS_STORAGE_KEY, JSON.stringify(templates));
+};
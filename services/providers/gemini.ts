@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerateContentResponseUsageMetadata, GoogleGenAI } from '@google/genai';
+import { GenerationChunk, GenerationRequest, GenerationResult, ModelProvider, TokenUsage } from './types.ts';
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-3-flash-preview';
+
+const GEMINI_FALLBACK_MODELS = [GEMINI_DEFAULT_MODEL, 'gemini-2.5-flash', 'gemini-2.5-pro'];
+
+// Thinking tokens are billed as output
+const toTokenUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => metadata && {
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0)
+};
+
+export class GeminiProvider implements ModelProvider {
+    readonly kind = 'gemini' as const;
+    readonly defaultModel: string;
+    private readonly apiKey: string;
+    private client: GoogleGenAI | null = null;
+
+    constructor(apiKey: string, defaultModel: string = GEMINI_DEFAULT_MODEL) {
+        this.apiKey = apiKey;
+        this.defaultModel = defaultModel || GEMINI_DEFAULT_MODEL;
+    }
+
+    private parts(request: GenerationRequest) {
+        const images = (request.images || []).map(img => ({ inlineData: { mimeType: img.mimeType, data: img.data } }));
+        return [...images, { text: request.prompt }];
+    }
+
+    private getClient(): GoogleGenAI {
+        if (!this.apiKey) throw new Error("API_KEY is not configured.");
+        if (!this.client) this.client = new GoogleGenAI({ apiKey: this.apiKey });
+        return this.client;
+    }
+
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+        request.signal?.throwIfAborted();
+        const response = await this.getClient().models.generateContent({
+            model: request.model || this.defaultModel,
+            contents: { role: 'user', parts: this.parts(request) },
+            config: {
+                systemInstruction: request.systemInstruction,
+                temperature: request.temperature
+            }
+        });
+        // This SDK version can't cancel an in-flight request; drop the result instead
+        request.signal?.throwIfAborted();
+        return { text: response.text || '', usage: toTokenUsage(response.usageMetadata) };
+    }
+
+    async *stream(request: GenerationRequest): AsyncGenerator<GenerationChunk> {
+        const responseStream = await this.getClient().models.generateContentStream({
+            model: request.model || this.defaultModel,
+            contents: [{ parts: this.parts(request), role: 'user' }],
+            config: {
+                systemInstruction: request.systemInstruction,
+                temperature: request.temperature
+            }
+        });
+        for await (const chunk of responseStream) {
+            request.signal?.throwIfAborted();
+            const text = chunk.text;
+            const usage = toTokenUsage(chunk.usageMetadata);
+            if (typeof text === 'string' || usage) yield { text: text || '', usage };
+        }
+    }
+
+    async listModels(): Promise<string[]> {
+        // The SDK version we ship does not expose models.list, so hit REST directly.
+        if (!this.apiKey) return GEMINI_FALLBACK_MODELS;
+        try {
+            const res = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(this.apiKey)}`);
+            if (!res.ok) return GEMINI_FALLBACK_MODELS;
+            const data = await res.json();
+            const models: string[] = (data.models || [])
+                .filter((m: any) => (m.supportedGenerationMethods || []).includes('generateContent'))
+                .map((m: any) => String(m.name).replace(/^models\//, ''));
+            return models.length > 0 ? models : GEMINI_FALLBACK_MODELS;
+        } catch (e) {
+            console.warn("Failed to list Gemini models", e);
+            return GEMINI_FALLBACK_MODELS;
+        }
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GeminiProvider, GEMINI_DEFAULT_MODEL } from './gemini.ts';
+import { OpenAICompatibleProvider, OPENAI_DEFAULT_MODEL } from './openai.ts';
+import { MockProvider, MOCK_DEFAULT_MODEL } from './mock.ts';
+import { ModelProvider, ProviderConfig, ProviderKind } from './types.ts';
+
+export * from './types.ts';
+export { GeminiProvider, OpenAICompatibleProvider, MockProvider };
+
+const PROVIDER_STORAGE_KEY = 'genfeatures_provider';
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible',
+    mock: 'Offline mock'
+};
+
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+    gemini: GEMINI_DEFAULT_MODEL,
+    openai: OPENAI_DEFAULT_MODEL,
+    mock: MOCK_DEFAULT_MODEL
+};
+
+const isProviderKind = (value: unknown): value is ProviderKind =>
+    value === 'gemini' || value === 'openai' || value === 'mock';
+
+export const getDefaultProviderConfig = (): ProviderConfig => {
+    const envKind = process.env.MODEL_PROVIDER;
+    const kind: ProviderKind = isProviderKind(envKind) ? envKind : 'gemini';
+    return {
+        kind,
+        model: DEFAULT_MODELS[kind],
+        baseUrl: process.env.MODEL_BASE_URL || '',
+        apiKey: ''
+    };
+};
+
+export const loadProviderConfig = (): ProviderConfig => {
+    const fallback = getDefaultProviderConfig();
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (!saved) return fallback;
+    try {
+        const parsed = JSON.parse(saved);
+        if (!isProviderKind(parsed.kind)) return fallback;
+        return { ...fallback, ...parsed };
+    } catch (e) {
+        console.error("Failed to parse provider config", e);
+        return fallback;
+    }
+};
+
+export const saveProviderConfig = (config: ProviderConfig) => {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(config));
+};
+
+export const isAbortError = (e: unknown) =>
+    (e instanceof DOMException || e instanceof Error) && e.name === 'AbortError';
+
+export const createProvider = (config: ProviderConfig): ModelProvider => {
+    switch (config.kind) {
+        case 'openai':
+            return new OpenAICompatibleProvider(config.baseUrl, config.apiKey, config.model);
+        case 'mock':
+            return new MockProvider();
+        case 'gemini':
+        default:
+            // A key typed into settings wins over the build-time one.
+            return new GeminiProvider(config.apiKey || process.env.API_KEY || '', config.model);
+    }
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { hashNumber } from '../../utils.ts';
+import { GenerationChunk, GenerationRequest, GenerationResult, ModelProvider } from './types.ts';
+
+export const MOCK_DEFAULT_MODEL = 'mock-deterministic';
+
+const MOCK_PALETTES = ['indigo', 'emerald', 'rose', 'amber', 'sky', 'violet'];
+const MOCK_STYLES = ['Modern Minimal', 'High-Tech Dark', 'Organic Flow', 'Soft Brutalism', 'Glass Console', 'Paper Craft', 'Neon Grid', 'Quiet Luxury'];
+
+const mockHtml = (prompt: string, label: string) => {
+    const color = MOCK_PALETTES[hashNumber(prompt + label) % MOCK_PALETTES.length];
+    return `<div class="max-w-sm w-full rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 p-6 shadow-sm">
+  <span class="text-xs font-semibold uppercase tracking-wide text-${color}-600 dark:text-${color}-400">${label}</span>
+  <h2 class="mt-2 text-lg font-semibold text-zinc-900 dark:text-zinc-100">Mock component</h2>
+  <p class="mt-1 text-sm text-zinc-600 dark:text-zinc-400">Offline preview generated without a model.</p>
+  <button class="mt-4 rounded-lg bg-${color}-600 px-4 py-2 text-sm font-medium text-white hover:bg-${color}-500">Action</button>
+</div>`;
+};
+
+const MOCK_PANEL = 'rounded-xl border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900 p-4 text-sm text-zinc-500 dark:text-zinc-400';
+const MOCK_LAYOUTS: [string, string][] = [
+    ['Sidebar', `<div class="flex gap-6 p-6"><aside class="w-48 ${MOCK_PANEL}">Navigation</aside><main class="flex-1 flex justify-center"><div data-layout-slot></div></main></div>`],
+    ['Split', `<div class="grid grid-cols-2 gap-6 p-6 items-center"><div class="${MOCK_PANEL}">Supporting copy</div><div data-layout-slot></div></div>`],
+    ['Card grid', `<div class="grid grid-cols-3 gap-4 p-6"><div data-layout-slot></div><div class="${MOCK_PANEL}">Card</div><div class="${MOCK_PANEL}">Card</div></div>`],
+    ['Single column', `<div class="max-w-2xl mx-auto flex flex-col gap-6 p-6"><header class="${MOCK_PANEL}">Header</header><div data-layout-slot></div><footer class="${MOCK_PANEL}">Footer</footer></div>`]
+];
+
+const mockResponse = (request: GenerationRequest) => {
+    // Stable per prompt, so identical prompts always produce identical output
+    const seed = hashNumber(request.prompt);
+    switch (request.task) {
+        case 'placeholders':
+            return JSON.stringify(['Offline kanban board', 'Offline settings panel', 'Offline chat bubble']);
+        case 'styles': {
+            const count = Number(request.prompt.match(/Generate (\d+)/)?.[1]) || 3;
+            const styles = Array.from({ length: count }, (_, i) => MOCK_STYLES[(seed + i) % MOCK_STYLES.length]);
+            return JSON.stringify(styles);
+        }
+        case 'variations':
+            return [0, 1, 2]
+                .map(i => JSON.stringify({ name: `Mock Persona ${i + 1}`, html: mockHtml(request.prompt, `Variation ${i + 1}`) }))
+                .join('\n');
+        case 'layouts':
+            return MOCK_LAYOUTS.map(([name, previewHtml]) => JSON.stringify({ name, css: '', previewHtml })).join('\n');
+        case 'refine':
+            return mockHtml(request.prompt, 'Revised');
+        case 'repair':
+            return mockHtml(request.prompt, 'Repaired');
+        case 'artifact':
+        default:
+            return mockHtml(request.prompt, request.prompt.match(/Direction: ([^.]+)/)?.[1] || 'Mock');
+    }
+};
+
+/**
+ * Deterministic offline provider. Same request in, same text out, so the UI
+ * can be driven end to end without network access or an API key.
+ */
+export class MockProvider implements ModelProvider {
+    readonly kind = 'mock' as const;
+    readonly defaultModel = MOCK_DEFAULT_MODEL;
+    private readonly chunkDelayMs: number;
+
+    constructor(chunkDelayMs: number = 15) {
+        this.chunkDelayMs = chunkDelayMs;
+    }
+
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+        request.signal?.throwIfAborted();
+        return { text: mockResponse(request) };
+    }
+
+    async *stream(request: GenerationRequest): AsyncGenerator<GenerationChunk> {
+        const text = mockResponse(request);
+        const chunkSize = 64;
+        for (let i = 0; i < text.length; i += chunkSize) {
+            if (this.chunkDelayMs > 0) await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+            request.signal?.throwIfAborted();
+            yield { text: text.substring(i, i + chunkSize) };
+        }
+    }
+
+    async listModels(): Promise<string[]> {
+        return [MOCK_DEFAULT_MODEL];
+    }
+}
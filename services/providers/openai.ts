@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationChunk, GenerationRequest, GenerationResult, ModelProvider, TokenUsage } from './types.ts';
+
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+
+const toTokenUsage = (usage: any): TokenUsage | undefined => usage && {
+    inputTokens: Number(usage.prompt_tokens) || 0,
+    outputTokens: Number(usage.completion_tokens) || 0
+};
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` and
+ * `/models` endpoints (OpenAI itself, internal gateways, vLLM, Ollama...).
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+    readonly kind = 'openai' as const;
+    readonly defaultModel: string;
+    private readonly baseUrl: string;
+    private readonly apiKey: string;
+
+    constructor(baseUrl: string, apiKey: string, defaultModel: string = OPENAI_DEFAULT_MODEL) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.apiKey = apiKey;
+        this.defaultModel = defaultModel || OPENAI_DEFAULT_MODEL;
+    }
+
+    private headers(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+        return headers;
+    }
+
+    private body(request: GenerationRequest, stream: boolean) {
+        const messages: { role: string; content: unknown }[] = [];
+        if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+        if (request.images?.length) {
+            messages.push({
+                role: 'user',
+                content: [
+                    { type: 'text', text: request.prompt },
+                    ...request.images.map(img => ({ type: 'image_url', image_url: { url: `data:${img.mimeType};base64,${img.data}` } }))
+                ]
+            });
+        } else {
+            messages.push({ role: 'user', content: request.prompt });
+        }
+        return JSON.stringify({
+            model: request.model || this.defaultModel,
+            messages,
+            temperature: request.temperature,
+            stream,
+            // Asks for a final event carrying the token counts
+            ...(stream ? { stream_options: { include_usage: true } } : {})
+        });
+    }
+
+    private async post(request: GenerationRequest, stream: boolean): Promise<Response> {
+        if (!this.baseUrl) throw new Error("Provider base URL is not configured.");
+        const res = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: this.body(request, stream),
+            signal: request.signal
+        });
+        if (!res.ok) {
+            const detail = await res.text().catch(() => '');
+            throw new Error(`Provider request failed (${res.status}): ${detail || res.statusText}`);
+        }
+        return res;
+    }
+
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+        const res = await this.post(request, false);
+        const data = await res.json();
+        return { text: data.choices?.[0]?.message?.content || '', usage: toTokenUsage(data.usage) };
+    }
+
+    async *stream(request: GenerationRequest): AsyncGenerator<GenerationChunk> {
+        const res = await this.post(request, true);
+        if (!res.body) throw new Error("Provider returned an empty stream.");
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                // Server-sent events: one `data: {...}` payload per line.
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                for (const line of lines) {
+                    const trimmed = line.trim();
+                    if (!trimmed.startsWith('data:')) continue;
+                    const payload = trimmed.substring(5).trim();
+                    if (payload === '[DONE]') return;
+                    try {
+                        const event = JSON.parse(payload);
+                        const text = event.choices?.[0]?.delta?.content;
+                        const usage = toTokenUsage(event.usage);
+                        if ((typeof text === 'string' && text) || usage) yield { text: text || '', usage };
+                    } catch (e) {
+                        console.warn("Skipping malformed stream event", payload);
+                    }
+                }
+            }
+        } finally {
+            // Stopping early (abort, break) would otherwise leave the response body locked and open
+            reader.cancel().catch(() => {});
+        }
+    }
+
+    async listModels(): Promise<string[]> {
+        try {
+            const res = await fetch(`${this.baseUrl}/models`, { headers: this.headers() });
+            if (!res.ok) return [this.defaultModel];
+            const data = await res.json();
+            const models: string[] = (data.data || []).map((m: any) => String(m.id));
+            return models.length > 0 ? models : [this.defaultModel];
+        } catch (e) {
+            console.warn("Failed to list models", e);
+            return [this.defaultModel];
+        }
+    }
+}
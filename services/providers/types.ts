@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+// What a request is for. Real providers ignore it; the mock provider uses it
+// to shape a plausible response (JSON array, NDJSON, raw HTML).
+export type GenerationTask = 'placeholders' | 'styles' | 'artifact' | 'variations' | 'layouts' | 'refine' | 'repair';
+
+export interface ImagePart {
+    mimeType: string;
+    data: string;
+}
+
+export interface UsageScope {
+    sessionId: string;
+    artifactId?: string;
+}
+
+export interface GenerationRequest {
+    prompt: string;
+    images?: ImagePart[];
+    task: GenerationTask;
+    model?: string;
+    systemInstruction?: string;
+    temperature?: number;
+    signal?: AbortSignal;
+    // What the call's token usage is charged to. Providers ignore it; usage tracking reads it back.
+    usageScope?: UsageScope;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    // True when the provider reported nothing and the counts were guessed from text length
+    estimated?: boolean;
+}
+
+export interface GenerationChunk {
+    text: string;
+    // Running total for the whole response. Providers that report it usually do so on the last chunk only.
+    usage?: TokenUsage;
+}
+
+export interface GenerationResult {
+    text: string;
+    usage?: TokenUsage;
+}
+
+export interface ProviderConfig {
+    kind: ProviderKind;
+    model: string;
+    baseUrl: string;
+    apiKey: string;
+}
+
+export interface ModelProvider {
+    readonly kind: ProviderKind;
+    readonly defaultModel: string;
+    generate(request: GenerationRequest): Promise<GenerationResult>;
+    stream(request: GenerationRequest): AsyncGenerator<GenerationChunk>;
+    listModels(): Promise<string[]>;
+}
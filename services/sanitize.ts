@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type SanitizeFindingKind = 'inline-script' | 'inline-handler' | 'external-script' | 'javascript-url' | 'offsite-form' | 'unsafe-element';
+
+export interface SanitizeFinding {
+    kind: SanitizeFindingKind;
+    detail: string;
+}
+
+export interface SanitizedHtml {
+    html: string;
+    findings: SanitizeFinding[];
+}
+
+export interface FrameSecurity {
+    // Lets the artifact's own inline scripts and on* handlers run. External scripts never do.
+    allowScripts: boolean;
+    // The app's own script, run after the markup with the template's nonce
+    trustedScript?: string;
+}
+
+// The only script origin previews load: the Tailwind CDN the template itself includes
+export const TRUSTED_SCRIPT_ORIGINS = ['https://cdn.tailwindcss.com'];
+
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href'];
+const UNSAFE_ELEMENTS = 'base, object, embed, meta[http-equiv]';
+
+const isOffsite = (url: string) => /^([a-z][a-z0-9+.-]*:)?\/\//i.test(url.trim());
+
+const describeElement = (el: Element) => {
+    const html = el.outerHTML.replace(/\s+/g, ' ');
+    return html.length > 100 ? `${html.substring(0, 100)}…` : html;
+};
+
+/**
+ * Applies the preview security policy to generated markup. Some things are
+ * always removed: external scripts, off-site form targets, `<base>`,
+ * `<object>`, `<embed>` and `<meta http-equiv>`. Inline scripts, `on*`
+ * handlers and `javascript:` URLs are removed only when scripts are not
+ * allowed. Every removal is reported so the UI can flag it.
+ */
+export const sanitizeArtifactHtml = (html: string, { allowScripts }: FrameSecurity): SanitizedHtml => {
+    const findings: SanitizeFinding[] = [];
+    // <template> parses in fragment context, so head-only elements like <style> stay in place
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    const root = template.content;
+
+    root.querySelectorAll('script').forEach(script => {
+        const src = script.getAttribute('src');
+        if (src) {
+            findings.push({ kind: 'external-script', detail: src });
+            script.remove();
+        } else if (!allowScripts) {
+            findings.push({ kind: 'inline-script', detail: describeElement(script) });
+            script.remove();
+        }
+    });
+
+    root.querySelectorAll(UNSAFE_ELEMENTS).forEach(el => {
+        findings.push({ kind: 'unsafe-element', detail: describeElement(el) });
+        el.remove();
+    });
+
+    root.querySelectorAll('*').forEach(el => {
+        Array.from(el.attributes).forEach(attr => {
+            const name = attr.name.toLowerCase();
+            if (!allowScripts && name.startsWith('on')) {
+                findings.push({ kind: 'inline-handler', detail: `${el.tagName.toLowerCase()} ${name}="${attr.value}"` });
+                el.removeAttribute(attr.name);
+            } else if (URL_ATTRIBUTES.includes(name) && /^\s*javascript:/i.test(attr.value)) {
+                if (allowScripts) return;
+                findings.push({ kind: 'javascript-url', detail: `${el.tagName.toLowerCase()} ${name}="${attr.value}"` });
+                el.removeAttribute(attr.name);
+            } else if ((name === 'action' || name === 'formaction') && isOffsite(attr.value)) {
+                findings.push({ kind: 'offsite-form', detail: attr.value });
+                el.removeAttribute(attr.name);
+            }
+        });
+    });
+
+    return { html: findings.length ? template.innerHTML : html, findings };
+};
+
+/**
+ * CSP for preview documents. With scripts blocked, only the template's own
+ * nonce-tagged scripts and the Tailwind CDN may run. Forms can never submit
+ * and the document can't open network connections.
+ */
+export const buildContentSecurityPolicy = (nonce: string, allowScripts: boolean) => [
+    "default-src 'none'",
+    `script-src ${allowScripts ? "'unsafe-inline'" : `'nonce-${nonce}'`} ${TRUSTED_SCRIPT_ORIGINS.join(' ')}`,
+    "style-src 'unsafe-inline' https://fonts.googleapis.com",
+    "font-src https://fonts.gstatic.com data:",
+    "img-src https: data: blob:",
+    "media-src https: data: blob:",
+    "connect-src 'none'",
+    "frame-src 'none'",
+    "object-src 'none'",
+    "form-action 'none'",
+    "base-uri 'none'"
+].join('; ');
+
+const FINDING_LABELS: Record<SanitizeFindingKind, string> = {
+    'inline-script': 'inline script',
+    'inline-handler': 'event handler',
+    'external-script': 'external script',
+    'javascript-url': 'javascript: URL',
+    'offsite-form': 'off-site form target',
+    'unsafe-element': 'unsafe element'
+};
+
+/** One-line summary such as "2 event handlers, 1 external script". */
+export const summarizeFindings = (findings: SanitizeFinding[]) => {
+    const counts = new Map<SanitizeFindingKind, number>();
+    findings.forEach(f => counts.set(f.kind, (counts.get(f.kind) || 0) + 1));
+    return Array.from(counts, ([kind, count]) => `${count} ${FINDING_LABELS[kind]}${count === 1 ? '' : 's'}`).join(', ');
+};
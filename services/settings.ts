@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationSettings } from '../types.ts';
+import { DEFAULT_GENERATION_SETTINGS, MAX_DIRECTIONS, MIN_DIRECTIONS } from '../constants.ts';
+
+const SETTINGS_STORAGE_KEY = 'genfeatures_generation';
+
+export const clampDirections = (count: number) =>
+    Math.min(MAX_DIRECTIONS, Math.max(MIN_DIRECTIONS, Math.round(count) || MIN_DIRECTIONS));
+
+export const loadGenerationSettings = (): GenerationSettings => {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!saved) return DEFAULT_GENERATION_SETTINGS;
+    try {
+        const parsed = { ...DEFAULT_GENERATION_SETTINGS, ...JSON.parse(saved) };
+        return { ...parsed, directionCount: clampDirections(parsed.directionCount) };
+    } catch (e) {
+        console.error("Failed to parse generation settings", e);
+        return DEFAULT_GENERATION_SETTINGS;
+    }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings) => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
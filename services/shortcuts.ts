@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface KeyBinding {
+    // KeyboardEvent.key, compared case-insensitively for letters
+    key: string;
+    // Cmd on macOS, Ctrl elsewhere
+    mod?: boolean;
+}
+
+export interface Command {
+    id: string;
+    label: string;
+    group: string;
+    binding?: KeyBinding;
+    // Disabled commands are left out of the palette and ignore their shortcut
+    enabled: boolean;
+    run: () => void;
+}
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_LABELS: Record<string, string> = {
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    Escape: 'Esc',
+    Enter: '↵'
+};
+
+export const matchesBinding = (event: KeyboardEvent, binding: KeyBinding) => {
+    const mod = IS_MAC ? event.metaKey : event.ctrlKey;
+    if (!!binding.mod !== mod || event.altKey || (IS_MAC ? event.ctrlKey : event.metaKey)) return false;
+    // Shift is part of keys like "?", so it is only checked through the key itself
+    return event.key.length === 1
+        ? event.key.toLowerCase() === binding.key.toLowerCase()
+        : event.key === binding.key;
+};
+
+export const formatBinding = (binding: KeyBinding) => {
+    const key = KEY_LABELS[binding.key] || binding.key.toUpperCase();
+    if (!binding.mod) return key;
+    return IS_MAC ? `⌘${key}` : `Ctrl+${key}`;
+};
+
+/** Typing in a field shouldn't trigger single-key shortcuts. */
+export const isEditableTarget = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    if (!el || !el.tagName) return false;
+    return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+};
+
+/** Commands in first-seen group order, for grouped lists. */
+export const groupCommands = (commands: Command[]) => {
+    const groups = new Map<string, Command[]>();
+    commands.forEach(command => {
+        groups.set(command.group, [...(groups.get(command.group) || []), command]);
+    });
+    return Array.from(groups.entries());
+};
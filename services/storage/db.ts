@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { errorMessage } from '../../utils.ts';
+
+const DB_NAME = 'genfeatures';
+const DB_VERSION = 3;
+
+export const STORES = {
+    sessions: 'sessions',
+    vault: 'vault',
+    collections: 'collections',
+    pageSections: 'pageSections'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// The vault lived in localStorage before version 2
+const LEGACY_VAULT_KEYS = { artifacts: 'genfeatures_vault', collections: 'genfeatures_vault_collections' };
+// And the composed page before version 3
+const LEGACY_PAGE_KEY = 'genfeatures_page';
+
+const readLegacyRecords = (key: string): unknown[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(key) || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        console.error(`Failed to parse ${key} during migration`, e);
+        return [];
+    }
+};
+
+// A legacy record without an id would throw inside the upgrade and abort it
+const hasId = (record: unknown): record is { id: string } => typeof (record as { id?: unknown })?.id === 'string';
+
+// Each entry upgrades the schema from version (index) to (index + 1). They run
+// inside the versionchange transaction, so a failed step rolls the whole upgrade back.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+    (db) => {
+        const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+        sessions.createIndex('timestamp', 'timestamp');
+    },
+    (db, tx) => {
+        const vault = db.createObjectStore(STORES.vault, { keyPath: 'id' });
+        vault.createIndex('savedAt', 'savedAt');
+        const collections = db.createObjectStore(STORES.collections, { keyPath: 'id' });
+
+        readLegacyRecords(LEGACY_VAULT_KEYS.artifacts).filter(hasId).forEach(record => vault.put(record));
+        readLegacyRecords(LEGACY_VAULT_KEYS.collections).filter(hasId).forEach(record => collections.put(record));
+        // Only drop the old copy once the imported records are committed
+        tx.addEventListener('complete', () => {
+            localStorage.removeItem(LEGACY_VAULT_KEYS.artifacts);
+            localStorage.removeItem(LEGACY_VAULT_KEYS.collections);
+        });
+    },
+    (db, tx) => {
+        const pageSections = db.createObjectStore(STORES.pageSections, { keyPath: 'id' });
+        // The old copy was an ordered array
+        readLegacyRecords(LEGACY_PAGE_KEY)
+            .filter(hasId)
+            .forEach((record, position) => pageSections.put({ ...record, position }));
+        tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_PAGE_KEY));
+    }
+];
+
+/** True for the errors browsers raise when the origin's storage quota is exhausted. */
+export const isQuotaError = (e: unknown) =>
+    (e instanceof DOMException || e instanceof Error) && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const describeStorageError = (e: unknown) => isQuotaError(e)
+    ? "Browser storage is full. Delete saved components or export the vault to free up space."
+    : `Couldn't write to browser storage: ${errorMessage(e)}`;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("IndexedDB is not available in this browser."));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            for (let v = event.oldVersion; v < DB_VERSION; v++) {
+                MIGRATIONS[v](db, request.transaction!);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+export const getAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+    const db = await openDatabase();
+    return promisify(db.transaction(store, 'readonly').objectStore(store).getAll()) as Promise<T[]>;
+};
+
+/** Runs `work` in one readwrite transaction and resolves once it commits. */
+export const writeTransaction = async (stores: StoreName[], work: (tx: IDBTransaction) => void): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(stores, 'readwrite');
+    work(tx);
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const putRecords = <T>(store: StoreName, records: T[]): Promise<void> =>
+    writeTransaction([store], tx => {
+        const objectStore = tx.objectStore(store);
+        records.forEach(record => objectStore.put(record));
+    });
+
+export const deleteRecord = async (store: StoreName, key: string): Promise<void> => {
+    const db = await openDatabase();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+}
+
+/** Origin-wide usage and quota, or null where the Storage API is unavailable. */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
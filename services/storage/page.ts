@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PageSection } from '../../types.ts';
+import { STORES, getAllRecords, writeTransaction } from './db.ts';
+
+// One record per section; the position keeps the page order
+interface StoredPageSection extends PageSection {
+    position: number;
+}
+
+export const loadPageSections = async (): Promise<PageSection[]> => {
+    const records = await getAllRecords<StoredPageSection>(STORES.pageSections);
+    return records
+        .sort((a, b) => a.position - b.position)
+        .map(({ position, ...section }) => section);
+};
+
+/**
+ * Replaces the stored page in one transaction, so a quota failure leaves the
+ * previous page exactly as it was.
+ */
+export const savePageSections = (sections: PageSection[]) =>
+    writeTransaction([STORES.pageSections], tx => {
+        const store = tx.objectStore(STORES.pageSections);
+        store.clear();
+        sections.forEach((section, position) => store.put({ ...section, position }));
+    });
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Session } from '../../types.ts';
+import { STORES, deleteRecord, getAllRecords, putRecords } from './db.ts';
+
+// A session persisted mid-stream can never finish, so settle its artifacts on load.
+const settleSession = (session: Session): Session => ({
+    ...session,
+    artifacts: session.artifacts.map(art =>
+        art.status === 'streaming' ? { ...art, status: art.html ? 'complete' : 'error' } : art
+    )
+});
+
+export const loadSessionHistory = async (): Promise<Session[]> => {
+    const sessions = await getAllRecords<Session>(STORES.sessions);
+    return sessions.map(settleSession).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveSessions = (sessions: Session[]) => putRecords(STORES.sessions, sessions);
+
+export const deleteSession = (id: string) => deleteRecord(STORES.sessions, id);
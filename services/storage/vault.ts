@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SavedArtifact, VaultCollection } from '../../types.ts';
+import { VaultState } from '../vault.ts';
+import { STORES, getAllRecords, writeTransaction } from './db.ts';
+
+export const loadVault = async (): Promise<VaultState> => {
+    const [artifacts, collections] = await Promise.all([
+        getAllRecords<SavedArtifact>(STORES.vault),
+        getAllRecords<VaultCollection>(STORES.collections)
+    ]);
+    return {
+        artifacts: artifacts.sort((a, b) => b.savedAt - a.savedAt),
+        collections: collections.sort((a, b) => a.createdAt - b.createdAt)
+    };
+};
+
+// Records are replaced immutably in state, so a new object reference means it changed
+const diffRecords = <T extends { id: string }>(previous: T[], next: T[]) => {
+    const before = new Map(previous.map(r => [r.id, r]));
+    const nextIds = new Set(next.map(r => r.id));
+    return {
+        changed: next.filter(r => before.get(r.id) !== r),
+        removed: previous.filter(r => !nextIds.has(r.id)).map(r => r.id)
+    };
+};
+
+/**
+ * Writes only what differs between two vault snapshots, in one transaction so
+ * a quota failure leaves the stored vault exactly as it was.
+ */
+export const saveVaultChanges = (previous: VaultState, next: VaultState) => {
+    const artifacts = diffRecords(previous.artifacts, next.artifacts);
+    const collections = diffRecords(previous.collections, next.collections);
+    if (!artifacts.changed.length && !artifacts.removed.length && !collections.changed.length && !collections.removed.length) {
+        return Promise.resolve();
+    }
+    return writeTransaction([STORES.vault, STORES.collections], tx => {
+        const vaultStore = tx.objectStore(STORES.vault);
+        const collectionStore = tx.objectStore(STORES.collections);
+        artifacts.changed.forEach(r => vaultStore.put(r));
+        artifacts.removed.forEach(id => vaultStore.delete(id));
+        collections.changed.forEach(r => collectionStore.put(r));
+        collections.removed.forEach(id => collectionStore.delete(id));
+    });
+};
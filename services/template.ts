@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BrandKit } from '../types.ts';
+import { hashString } from '../utils.ts';
+import { brandFontsHref, brandThemeExtend } from './brandKits.ts';
+import { buildContentSecurityPolicy, FrameSecurity, sanitizeArtifactHtml } from './sanitize.ts';
+
+/**
+ * Wraps raw artifact markup in the document shell used for previews:
+ * Tailwind CDN, Inter (or the brand kit's fonts and tokens), class-based
+ * dark mode and a postMessage theme listener. Exports reuse it so a
+ * downloaded file renders exactly like the preview.
+ *
+ * Previews pass `security`: the markup is sanitized and a strict CSP is
+ * added. Exports leave it out and get the markup untouched.
+ * `security.trustedScript` is the one way to run app code in a locked-down
+ * frame, since anything inline in the markup is stripped or blocked.
+ */
+export const wrapInTemplate = (content: string, theme: 'light' | 'dark', brandKit: BrandKit | null = null, security: FrameSecurity | null = null) => {
+    const body = security ? sanitizeArtifactHtml(content, security).html : content;
+    // Deterministic so an unchanged preview keeps the same srcdoc and doesn't reload
+    const nonce = hashString(body);
+    const nonceAttr = security && !security.allowScripts ? ` nonce="${nonce}"` : '';
+    const cspMeta = security
+        ? `<meta http-equiv="Content-Security-Policy" content="${buildContentSecurityPolicy(nonce, security.allowScripts)}">`
+        : '';
+    const trustedScript = security?.trustedScript ? `<script${nonceAttr}>${security.trustedScript}</script>` : '';
+    const bodyFont = brandKit?.fonts.body || 'Inter';
+    const tailwindConfig = JSON.stringify({ darkMode: 'class', theme: { extend: brandThemeExtend(brandKit) } }, null, 4);
+    return `
+            <!DOCTYPE html>
+            <html class="${theme === 'dark' ? 'dark' : ''}">
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                ${cspMeta}
+                <script src="https://cdn.tailwindcss.com"></script>
+                <link href="${brandFontsHref(brandKit)}" rel="stylesheet">
+                <style>
+                    body { 
+                        font-family: '${bodyFont}', sans-serif; 
+                        margin: 0; 
+                        padding: 20px;
+                        background-color: transparent;
+                        min-height: 100vh;
+                        display: flex;
+                        align-items: center;
+                        justify-content: center;
+                    }
+                    * { transition: background-color 0.3s ease, color 0.3s ease, border-color 0.3s ease; }
+                </style>
+                <script${nonceAttr}>
+                    tailwind.config = ${tailwindConfig}
+                </script>
+            </head>
+            <body class="bg-white dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100">
+                ${body}
+                <script${nonceAttr}>
+                    // Sync theme if this script is already loaded
+                    window.addEventListener('message', (event) => {
+                        if (event.data.theme) {
+                            document.documentElement.className = event.data.theme === 'dark' ? 'dark' : '';
+                        }
+                    });
+                </script>
+                ${trustedScript}
+            </body>
+            </html>
+        `;
+};
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Session, UsageTotals } from '../types.ts';
+import { GenerationChunk, GenerationRequest, ModelProvider, TokenUsage } from './providers/index.ts';
+
+const USAGE_SETTINGS_STORAGE_KEY = 'genfeatures_usage_settings';
+const DAILY_USAGE_STORAGE_KEY = 'genfeatures_usage_daily';
+// Older days are dropped from the daily log
+const DAILY_HISTORY_DAYS = 30;
+
+export interface UsageSettings {
+    // USD per million tokens
+    inputPricePerMillion: number;
+    outputPricePerMillion: number;
+    // USD per day; 0 turns the budget off
+    dailyBudget: number;
+}
+
+// Keyed by local date, YYYY-MM-DD
+export type DailyUsageLog = Record<string, UsageTotals>;
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+    inputPricePerMillion: 0.5,
+    outputPricePerMillion: 3,
+    dailyBudget: 0
+};
+
+export const EMPTY_USAGE: UsageTotals = { inputTokens: 0, outputTokens: 0, calls: 0 };
+
+/** Roughly four characters per token, for providers that report nothing. */
+export const estimateUsage = (request: GenerationRequest, text: string): TokenUsage => ({
+    inputTokens: Math.ceil(((request.systemInstruction || '').length + request.prompt.length) / 4),
+    outputTokens: Math.ceil(text.length / 4),
+    estimated: true
+});
+
+export const addUsage = (totals: UsageTotals | undefined, usage: TokenUsage): UsageTotals => {
+    const base = totals || EMPTY_USAGE;
+    return {
+        inputTokens: base.inputTokens + usage.inputTokens,
+        outputTokens: base.outputTokens + usage.outputTokens,
+        calls: base.calls + 1,
+        estimated: base.estimated || usage.estimated || undefined
+    };
+};
+
+export const sumUsage = (list: (UsageTotals | undefined)[]): UsageTotals =>
+    list.reduce<UsageTotals>((sum, totals) => totals ? {
+        inputTokens: sum.inputTokens + totals.inputTokens,
+        outputTokens: sum.outputTokens + totals.outputTokens,
+        calls: sum.calls + totals.calls,
+        estimated: sum.estimated || totals.estimated || undefined
+    } : sum, EMPTY_USAGE);
+
+export const sessionUsage = (session: Session) => sumUsage([session.usage, ...session.artifacts.map(a => a.usage)]);
+
+export const estimateCost = (totals: UsageTotals, settings: UsageSettings) =>
+    (totals.inputTokens * settings.inputPricePerMillion + totals.outputTokens * settings.outputPricePerMillion) / 1_000_000;
+
+export const formatCost = (usd: number) => usd < 0.01 && usd > 0 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (count: number) =>
+    count >= 1_000_000 ? `${(count / 1_000_000).toFixed(1)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+
+export const dayKey = (date = new Date()) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const recordDailyUsage = (log: DailyUsageLog, usage: TokenUsage): DailyUsageLog => {
+    const today = dayKey();
+    const next: DailyUsageLog = { ...log, [today]: addUsage(log[today], usage) };
+    const days = Object.keys(next).sort();
+    days.slice(0, Math.max(0, days.length - DAILY_HISTORY_DAYS)).forEach(day => delete next[day]);
+    return next;
+};
+
+export const isOverBudget = (log: DailyUsageLog, settings: UsageSettings) =>
+    settings.dailyBudget > 0 && estimateCost(log[dayKey()] || EMPTY_USAGE, settings) >= settings.dailyBudget;
+
+/**
+ * Wraps a provider so every call reports its token usage once it settles,
+ * including streams that are cancelled part way through. Calls whose
+ * provider reports nothing are estimated from the text.
+ */
+export const withUsageTracking = (
+    provider: ModelProvider,
+    onUsage: (usage: TokenUsage, request: GenerationRequest) => void
+): ModelProvider => ({
+    kind: provider.kind,
+    defaultModel: provider.defaultModel,
+    listModels: () => provider.listModels(),
+    async generate(request) {
+        const result = await provider.generate(request);
+        onUsage(result.usage || estimateUsage(request, result.text), request);
+        return result;
+    },
+    async *stream(request): AsyncGenerator<GenerationChunk> {
+        let text = '';
+        let usage: TokenUsage | undefined;
+        try {
+            for await (const chunk of provider.stream(request)) {
+                text += chunk.text;
+                if (chunk.usage) usage = chunk.usage;
+                yield chunk;
+            }
+        } finally {
+            if (usage || text) onUsage(usage || estimateUsage(request, text), request);
+        }
+    }
+});
+
+export const loadUsageSettings = (): UsageSettings => {
+    const saved = localStorage.getItem(USAGE_SETTINGS_STORAGE_KEY);
+    if (!saved) return DEFAULT_USAGE_SETTINGS;
+    try {
+        return { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(saved) };
+    } catch (e) {
+        console.error("Failed to parse usage settings", e);
+        return DEFAULT_USAGE_SETTINGS;
+    }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+    localStorage.setItem(USAGE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const loadDailyUsage = (): DailyUsageLog => {
+    const saved = localStorage.getItem(DAILY_USAGE_STORAGE_KEY);
+    if (!saved) return {};
+    try {
+        const parsed = JSON.parse(saved);
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (e) {
+        console.error("Failed to parse daily usage", e);
+        return {};
+    }
+};
+
+export const saveDailyUsage = (log: DailyUsageLog) => {
+    localStorage.setItem(DAILY_USAGE_STORAGE_KEY, JSON.stringify(log));
+};
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ValidationWarning } from '../types.ts';
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+// Browsers close these implicitly, so a missing end tag isn't broken markup
+const OPTIONAL_END_TAGS = new Set(['li', 'p', 'td', 'th', 'tr', 'thead', 'tbody', 'tfoot', 'option', 'optgroup', 'dt', 'dd', 'colgroup']);
+// Their content is text, not markup, up to the matching end tag
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+const TAG_PATTERN = /<!--[\s\S]*?-->|<!DOCTYPE[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/gi;
+// A single unclosed element is usually a forgotten end tag; more than that, the output was cut off
+const TRUNCATION_OPEN_ELEMENTS = 2;
+const MAX_SNIPPET_CHARS = 60;
+
+interface MarkupScan {
+    // Elements still open at the end, outermost first
+    unclosed: string[];
+    // End tags that didn't match what was open
+    mismatched: string[];
+    // The text stops inside a tag, comment or attribute
+    cutMidTag: boolean;
+    // Text around the markup
+    leading: string;
+    trailing: string;
+}
+
+const snippet = (text: string) => {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > MAX_SNIPPET_CHARS ? `${flat.substring(0, MAX_SNIPPET_CHARS)}…` : flat;
+};
+
+const scanMarkup = (html: string): MarkupScan => {
+    const stack: string[] = [];
+    const mismatched: string[] = [];
+    let firstTag = -1;
+    let lastEnd = 0;
+
+    TAG_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TAG_PATTERN.exec(html))) {
+        if (firstTag === -1) firstTag = match.index;
+        lastEnd = TAG_PATTERN.lastIndex;
+        const [, slash, rawName, attributes] = match;
+        if (!rawName) continue;
+        const name = rawName.toLowerCase();
+
+        if (slash) {
+            const index = stack.lastIndexOf(name);
+            if (index === -1) {
+                mismatched.push(`</${name}>`);
+                continue;
+            }
+            stack.splice(index).slice(1)
+                .filter(open => !OPTIONAL_END_TAGS.has(open))
+                .forEach(open => mismatched.push(`<${open}>`));
+            continue;
+        }
+
+        if (VOID_TAGS.has(name) || attributes.trimEnd().endsWith('/')) continue;
+        stack.push(name);
+
+        if (RAW_TEXT_TAGS.has(name)) {
+            const close = html.toLowerCase().indexOf(`</${name}`, TAG_PATTERN.lastIndex);
+            if (close === -1) {
+                lastEnd = html.length;
+                break;
+            }
+            TAG_PATTERN.lastIndex = close;
+        }
+    }
+
+    const rest = html.substring(lastEnd);
+    return {
+        unclosed: stack.filter(open => !OPTIONAL_END_TAGS.has(open)),
+        mismatched,
+        cutMidTag: /<[a-zA-Z!/]/.test(rest),
+        leading: firstTag === -1 ? html : html.substring(0, firstTag),
+        trailing: rest
+    };
+};
+
+/**
+ * Static checks on a finished artifact: output that was cut off, prose around
+ * the markup, tags that don't line up and missing dark mode classes.
+ * Returns an empty list when nothing looks wrong.
+ */
+export const validateArtifact = (html: string): ValidationWarning[] => {
+    const warnings: ValidationWarning[] = [];
+    const scan = scanMarkup(html);
+    const endsInText = scan.unclosed.length > 0 && scan.trailing.trim() !== '';
+    const truncated = scan.cutMidTag || endsInText || scan.unclosed.length >= TRUNCATION_OPEN_ELEMENTS;
+
+    if (truncated) {
+        const open = scan.unclosed.length;
+        warnings.push({
+            rule: 'truncated',
+            message: open ? `The output stops part way through, with ${open} element${open === 1 ? '' : 's'} left open.` : 'The output stops part way through a tag.'
+        });
+    }
+    if (scan.leading.trim()) {
+        warnings.push({ rule: 'chatter', message: `Text before the markup: "${snippet(scan.leading)}"` });
+    }
+    if (!truncated && scan.trailing.trim()) {
+        warnings.push({ rule: 'chatter', message: `Text after the markup: "${snippet(scan.trailing)}"` });
+    }
+    if (!truncated && (scan.mismatched.length || scan.unclosed.length)) {
+        const tags = [...scan.mismatched, ...scan.unclosed.map(open => `<${open}>`)];
+        warnings.push({ rule: 'markup', message: `Tags don't line up: ${tags.slice(0, 4).join(', ')}${tags.length > 4 ? '…' : ''}` });
+    }
+    if (!/\bdark:/.test(html)) {
+        warnings.push({ rule: 'dark-mode', message: 'No dark: classes, so the component won\'t adapt to dark mode.' });
+    }
+    return warnings;
+};
+
+export const isTruncated = (warnings: ValidationWarning[] | undefined) => !!warnings?.some(w => w.rule === 'truncated');
+
+/**
+ * Prompt for a repair pass. Cut-off output is continued from where it stopped,
+ * so `append` is true and the result goes after the existing html; anything
+ * else is rewritten whole.
+ */
+export const buildRepairPrompt = (html: string, warnings: ValidationWarning[]) => {
+    if (isTruncated(warnings)) {
+        return {
+            append: true,
+            prompt: `
+The UI component below was cut off before it finished:
+
+${html}
+
+Continue it EXACTLY where it stops. Return ONLY the remaining markup, starting with the next character, and close every open element.
+Do not repeat anything already written. NO MARKDOWN FENCES.
+            `.trim()
+        };
+    }
+    return {
+        append: false,
+        prompt: `
+Here is an existing UI component:
+
+${html}
+
+It has these problems:
+${warnings.map(w => `- ${w.message}`).join('\n')}
+
+Fix them and keep everything else intact. Remove any prose, so the response is only markup.
+Return the COMPLETE updated component. NO MARKDOWN FENCES.
+        `.trim()
+    };
+};
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import JSZip from 'jszip';
+import { BrandKit, SavedArtifact, VaultCollection } from '../types.ts';
+import { generateId } from '../utils.ts';
+import { slugify } from './export/index.ts';
+import { ExportFormat, isRecord, newItems, parseVersionedExport } from './jsonExport.ts';
+import { wrapInTemplate } from './template.ts';
+
+const EXPORT_FORMAT = 'genfeatures-vault';
+const EXPORT_VERSION = 1;
+const EXPORT_MANIFEST = 'vault.json';
+const VAULT_FORMAT: ExportFormat = { format: EXPORT_FORMAT, version: EXPORT_VERSION, listKey: 'artifacts', label: 'vault export' };
+
+export interface VaultState {
+    artifacts: SavedArtifact[];
+    collections: VaultCollection[];
+}
+
+export interface VaultExport extends VaultState {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: number;
+}
+
+export interface VaultImportResult {
+    state: VaultState;
+    added: number;
+    skipped: number;
+}
+
+export const EMPTY_VAULT: VaultState = { artifacts: [], collections: [] };
+
+export const createCollection = (name: string): VaultCollection => ({ id: generateId(), name, createdAt: Date.now() });
+
+/** Lowercased, trimmed and de-duplicated tags from a comma separated string. */
+export const parseTags = (value: string) =>
+    Array.from(new Set(value.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+export const matchesVaultQuery = (artifact: SavedArtifact, query: string) => {
+    const q = query.toLowerCase();
+    return [artifact.styleName, artifact.prompt, artifact.notes || '', ...(artifact.tags || [])]
+        .some(field => field.toLowerCase().includes(q));
+};
+
+/** The whole vault, or a single collection and only the artifacts filed in it. */
+export const buildVaultExport = (state: VaultState, collectionId: string | null = null): VaultExport => {
+    const collections = collectionId ? state.collections.filter(c => c.id === collectionId) : state.collections;
+    const artifacts = collectionId
+        ? state.artifacts.filter(a => a.collectionIds?.includes(collectionId))
+        : state.artifacts;
+    return { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: Date.now(), collections, artifacts };
+};
+
+export const exportVaultJson = (data: VaultExport) =>
+    new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+
+/**
+ * ZIP with the JSON manifest plus a standalone preview page per artifact, so
+ * a moodboard can be browsed without importing it.
+ */
+export const exportVaultZip = async (data: VaultExport, theme: 'light' | 'dark', brandKit: BrandKit | null = null) => {
+    const zip = new JSZip();
+    zip.file(EXPORT_MANIFEST, JSON.stringify(data, null, 2));
+    data.artifacts.forEach(artifact => {
+        zip.file(`previews/${slugify(artifact.styleName)}-${artifact.id}.html`, wrapInTemplate(artifact.html, theme, brandKit));
+    });
+    return zip.generateAsync({ type: 'blob' });
+};
+
+const normalizeArtifact = (raw: unknown): SavedArtifact | null => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.html !== 'string') return null;
+    return {
+        ...raw,
+        id: raw.id,
+        html: raw.html,
+        styleName: typeof raw.styleName === 'string' ? raw.styleName : 'Imported',
+        prompt: typeof raw.prompt === 'string' ? raw.prompt : '',
+        savedAt: typeof raw.savedAt === 'number' ? raw.savedAt : Date.now(),
+        status: 'complete',
+        collectionIds: Array.isArray(raw.collectionIds) ? raw.collectionIds.filter((id: unknown) => typeof id === 'string') : undefined,
+        tags: Array.isArray(raw.tags) ? raw.tags.filter((t: unknown) => typeof t === 'string') : undefined,
+        notes: typeof raw.notes === 'string' ? raw.notes : undefined
+    };
+};
+
+/** Reads a vault export from a .json or .zip file. Throws on anything else. */
+export const readVaultFile = async (file: File): Promise<VaultExport> => {
+    let text: string;
+    if (file.name.toLowerCase().endsWith('.zip') || file.type.includes('zip')) {
+        const zip = await JSZip.loadAsync(file);
+        const manifest = zip.file(EXPORT_MANIFEST);
+        if (!manifest) throw new Error(`${file.name} has no ${EXPORT_MANIFEST}.`);
+        text = await manifest.async('string');
+    } else {
+        text = await file.text();
+    }
+
+    const parsed = parseVersionedExport(text, file.name, VAULT_FORMAT);
+    return {
+        format: EXPORT_FORMAT,
+        version: parsed.version,
+        exportedAt: typeof parsed.exportedAt === 'number' ? parsed.exportedAt : Date.now(),
+        collections: (Array.isArray(parsed.collections) ? parsed.collections : [])
+            .filter((c: unknown): c is VaultCollection => isRecord(c) && typeof c.id === 'string' && typeof c.name === 'string'),
+        artifacts: parsed.artifacts.map(normalizeArtifact).filter((a: SavedArtifact | null): a is SavedArtifact => a !== null)
+    };
+};
+
+/** Adds imported artifacts and collections to the vault, skipping ids it already has. */
+export const mergeVaultImport = (current: VaultState, incoming: VaultExport): VaultImportResult => {
+    const added = newItems(current.artifacts, incoming.artifacts);
+    return {
+        state: {
+            artifacts: [...added, ...current.artifacts],
+            collections: [...current.collections, ...newItems(current.collections, incoming.collections)]
+        },
+        added: added.length,
+        skipped: incoming.artifacts.length - added.length
+    };
+};
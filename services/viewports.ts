@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface Viewport {
+    label: string;
+    width: number;
+    height: number;
+}
+
+export type ViewportPreset = 'fill' | 'mobile' | 'tablet' | 'desktop' | 'custom';
+
+export interface ViewportSettings {
+    preset: ViewportPreset;
+    customWidth: number;
+    customHeight: number;
+    rotated: boolean;
+    sideBySide: boolean;
+}
+
+export const VIEWPORT_PRESETS: Record<Exclude<ViewportPreset, 'fill' | 'custom'>, Viewport> = {
+    mobile: { label: 'Mobile', width: 375, height: 812 },
+    tablet: { label: 'Tablet', width: 768, height: 1024 },
+    desktop: { label: 'Desktop', width: 1280, height: 800 }
+};
+
+export const DEFAULT_VIEWPORT_SETTINGS: ViewportSettings = {
+    preset: 'fill',
+    customWidth: 1024,
+    customHeight: 768,
+    rotated: false,
+    sideBySide: false
+};
+
+const rotate = (viewport: Viewport, rotated: boolean): Viewport =>
+    rotated ? { ...viewport, width: viewport.height, height: viewport.width } : viewport;
+
+/**
+ * Frames to render for the focused artifact. An empty list means the iframe
+ * simply fills the stage.
+ */
+export const resolveViewports = (settings: ViewportSettings): Viewport[] => {
+    if (settings.sideBySide) {
+        return Object.values(VIEWPORT_PRESETS).map(vp => rotate(vp, settings.rotated));
+    }
+    switch (settings.preset) {
+        case 'fill':
+            return [];
+        case 'custom':
+            return [rotate({ label: 'Custom', width: settings.customWidth, height: settings.customHeight }, settings.rotated)];
+        default:
+            return [rotate(VIEWPORT_PRESETS[settings.preset], settings.rotated)];
+    }
+};
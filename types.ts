@@ -4,16 +4,112 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+export interface ArtifactRevision {
+  id: string;
+  instruction: string;
+  html: string;
+  timestamp: number;
+}
+
+export type AccessibilityRule = 'image-alt' | 'form-label' | 'control-name' | 'heading-order' | 'contrast';
+
+export interface AccessibilityIssue {
+  rule: AccessibilityRule;
+  severity: 'error' | 'warning';
+  message: string;
+  // Short css-like description of the offending element, e.g. button.px-4
+  element: string;
+  snippet: string;
+  // Set for contrast issues, which are checked separately in each theme
+  theme?: 'light' | 'dark';
+}
+
+export interface AccessibilityAudit {
+  // Hash of the html that was audited, so edits invalidate the result
+  htmlHash: string;
+  issues: AccessibilityIssue[];
+  auditedAt: number;
+}
+
+export type ValidationRule = 'truncated' | 'chatter' | 'markup' | 'dark-mode';
+
+export interface ValidationWarning {
+  rule: ValidationRule;
+  message: string;
+}
+
+// Token counts summed over model calls
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  calls: number;
+  // Some of the calls didn't report usage and were estimated from text length
+  estimated?: boolean;
+}
+
 export interface Artifact {
   id: string;
   styleName: string;
   html: string;
   status: 'streaming' | 'complete' | 'error';
+  error?: string;
+  revisions?: ArtifactRevision[];
+  revisionIndex?: number;
+  // Model output that manual source edits started from. Cleared whenever the model rewrites the html.
+  generatedHtml?: string;
+  audit?: AccessibilityAudit;
+  // Problems found in the model's output when it finished. Empty or missing means none.
+  warnings?: ValidationWarning[];
+  // Lets the artifact's inline scripts run in its preview. Off by default.
+  scriptsAllowed?: boolean;
+  // Every call spent on this artifact: generation, retries, refinements and variations
+  usage?: UsageTotals;
 }
 
 export interface SavedArtifact extends Artifact {
     prompt: string;
     savedAt: number;
+    collectionIds?: string[];
+    tags?: string[];
+    notes?: string;
+}
+
+export interface VaultCollection {
+    id: string;
+    name: string;
+    createdAt: number;
+}
+
+export interface ReferenceImage {
+    mimeType: string;
+    // Base64 payload without the data: URL prefix
+    data: string;
+    name?: string;
+}
+
+// 'system' generates a matching component set (buttons, inputs, cards...) per direction
+export type GenerationMode = 'component' | 'system';
+
+export interface GenerationSettings {
+    mode: GenerationMode;
+    directionCount: number;
+    temperature: number;
+    // Empty means "use the provider's configured model"
+    model: string;
+    customInstruction: string;
+    // Runs one continue/repair pass on output that fails validation
+    autoRepair: boolean;
+}
+
+// How a session was derived from an artifact in another one
+export type BranchKind = 'variation' | 'refinement' | 'restore';
+
+export interface SessionParent {
+    kind: BranchKind;
+    // Missing when the source session isn't known, e.g. a vault item saved from a deleted session
+    sessionId?: string;
+    artifactId: string;
+    styleName: string;
 }
 
 export interface Session {
@@ -21,9 +117,61 @@ export interface Session {
     prompt: string;
     timestamp: number;
     artifacts: Artifact[];
+    settings?: GenerationSettings;
+    referenceImage?: ReferenceImage;
+    // Opened from a share link: not editable and never written to history
+    readOnly?: boolean;
+    // Calls made for the session as a whole, like naming its directions. Artifacts track their own.
+    usage?: UsageTotals;
+    // Set when the session branched from an artifact rather than a new prompt
+    parent?: SessionParent;
+}
+
+export interface BrandKit {
+    id: string;
+    name: string;
+    colors: {
+        primary: string;
+        secondary: string;
+        accent: string;
+        neutral: string;
+    };
+    fonts: {
+        heading: string;
+        body: string;
+    };
+    // Base corner radius in px; Tailwind's rounded-* steps scale from it
+    radius: number;
+    // Px per Tailwind spacing step (Tailwind's own default is 4)
+    spacingUnit: number;
+}
+
+// A saved prompt. {{name}} placeholders are filled in before it is sent.
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    category: string;
+    text: string;
+    createdAt: number;
 }
 
 export interface ComponentVariation { name: string; html: string; }
 export interface LayoutOption { name: string; css: string; previewHtml: string; }
 
-export type ViewMode = 'main' | 'stack' | 'vault';
+// A snapshot pinned for compare mode. Later edits to the source don't change it.
+export interface CompareItem {
+    artifact: Artifact;
+    // Where it was pinned from, e.g. the session prompt or "Vault"
+    source: string;
+}
+
+// One block of a composed page. The html is copied in, so later edits to the source artifact don't move it.
+export interface PageSection {
+    id: string;
+    styleName: string;
+    html: string;
+    // Where it was added from, e.g. the session prompt or "Vault"
+    source: string;
+}
+
+export type ViewMode = 'main' | 'stack' | 'vault' | 'history' | 'compare' | 'composer' | 'tree';
@@ -3,4 +3,78 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-export const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
\ No newline at end of file
+import { ReferenceImage } from './types.ts';
+
+export const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
+
+// Cheap non-cryptographic hash (FNV-1a), as an unsigned 32-bit number
+export const hashNumber = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// The same hash as a short string, for change detection
+export const hashString = (text: string) => hashNumber(text).toString(36);
+
+// Columns for an artifact grid of `count` cards: one row up to 4, then two rows
+export const getGridColumns = (count: number) => count <= 4 ? Math.max(count, 1) : Math.ceil(count / 2);
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const MAX_REFERENCE_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const readImageFile = (file: File): Promise<ReferenceImage> =>
+    new Promise((resolve, reject) => {
+        if (!file.type.startsWith('image/')) {
+            reject(new Error(`${file.name || 'File'} is not an image.`));
+            return;
+        }
+        if (file.size > MAX_REFERENCE_IMAGE_BYTES) {
+            reject(new Error(`${file.name || 'Image'} is larger than 5 MB.`));
+            return;
+        }
+        const reader = new FileReader();
+        reader.onload = () => {
+            const dataUrl = String(reader.result);
+            resolve({ mimeType: file.type, data: dataUrl.substring(dataUrl.indexOf(',') + 1), name: file.name });
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+
+export const imageDataUrl = (image: ReferenceImage) => `data:${image.mimeType};base64,${image.data}`;
+
+export const errorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+export const stripCodeFences = (text: string) => {
+    let html = text.trim();
+    if (html.startsWith('```html')) html = html.substring(7).trimStart();
+    if (html.startsWith('```')) html = html.substring(3).trimStart();
+    if (html.endsWith('```')) html = html.substring(0, html.length - 3).trimEnd();
+    return html;
+};
\ No newline at end of file